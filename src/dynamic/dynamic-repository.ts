@@ -1,24 +1,106 @@
+import { createHash } from 'crypto';
 import {
+  Brackets,
   DataSource,
+  EntityManager,
   EntityMetadata,
   EntitySchema,
+  NotBrackets,
   ObjectLiteral,
   ObjectType,
+  QueryBuilder,
   SelectQueryBuilder,
+  WhereExpressionBuilder,
 } from 'typeorm';
+import { DriverUtils } from 'typeorm/driver/DriverUtils';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
 import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
 
-import { FilterOperator, OrderType } from '../query/query-options.interface';
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { ExposurePolicyRegistry } from '../policy/exposure-policy';
 import {
+  assertQueryLimits,
+  assertTakeLimit,
+  QueryLimits,
+} from '../policy/query-limits';
+
+import {
+  AggregateFunction,
+  CommonQueryOptions,
+  FilterExpression,
+  FilterQuantifier,
+  FilterType,
+  getFilterLeaves,
+  isFilterGroup,
+  OrderType,
+  RelationAggregate,
+  SearchMode,
+} from '../query/query-options.interface';
+import {
+  AggregateParams,
+  BulkWhereOptions,
+  CommonFindOptions,
   CommonRepository,
+  CursorFindParams,
+  CursorPage,
+  CursorPaginationOptions,
+  CursorQueryTreeFindParams,
+  DeleteWhereParams,
+  ExplainParams,
   FindParams,
   PaginatedFindParams,
+  PaginatedQueryTreeFindParams,
+  QueryExplanation,
+  QueryTreeFindParams,
+  UpdateWhereParams,
 } from '../repository.interface';
-import { QueryTree } from './query-tree';
-
-// ALIAS STRATEGY USED TO SELECT & JOIN ATTRIBUTES AND TABLES
-// e.g. order__articles__article_id
-const ALIAS_STRATEGY: string = '__';
+import {
+  findColumnByPath,
+  findRelationAggregate,
+  findRelationId,
+  getColumnPropertyPath,
+  getEmbeddedColumnPaths,
+  getRelationAggregateProperty,
+  splitEntityPath,
+  splitRelationPath,
+} from './entity-paths';
+import {
+  assertCustomOperatorName,
+  assertFullTextDriver,
+  BUILT_IN_OPERATORS,
+  createOperatorRegistry,
+  FilterOperatorDefinition,
+  FilterOperatorRegistry,
+  getFilterOperator,
+} from './filter-operators';
+import {
+  buildJsonDocumentExpression,
+  buildJsonValueExpression,
+  pickJsonPaths,
+  splitJsonPath,
+} from './json-paths';
+import {
+  ALIAS_STRATEGY,
+  createJoinAlias,
+  findJoinAlias,
+  getJoinAliasPaths,
+  getQueryJoins,
+  resolveFieldAlias,
+} from './join-aliases';
+import { QueryTree, QueryTreeContext } from './query-tree';
+import {
+  CONSOLE_LOGGER,
+  countResultRows,
+  QueryContext,
+  QueryExecutor,
+  QueryOperation,
+  RepositoryHooks,
+  RepositoryLogger,
+} from './repository-hooks';
+import {
+  buildVirtualFieldExpression,
+  findVirtualFieldColumn,
+} from './virtual-fields';
 
 /**
  * Function to ensure no selections are repeated
@@ -34,7 +116,10 @@ function addSelections(selections: string[], newSelections: string[]): void {
 }
 
 /**
- * Function to select all join attributes of relation
+ * Function to select all join attributes of relation, i.e. the entity columns
+ * join columns reference (foreign keys themselves may live in a junction table or
+ * have no entity property). They are selected by property path, so TypeORM gives
+ * them a unique alias per joined entity and links joined rows with them
  * @param selections already selected attributes
  * @param relation relation to Join
  * @param alias entity alias
@@ -46,29 +131,62 @@ function selectJoinNeccessaryAttributes(
   alias: string,
   relationAlias: string,
 ): void {
-  const joinColumns: string[] = relation.joinColumns.map(
-    (joinColumn) => alias + '.' + joinColumn.databaseName,
-  );
-  const inverseJoinColumns: string[] = relation.inverseJoinColumns.map(
-    (joinColumn) => relationAlias + '.' + joinColumn.databaseName,
-  );
-  addSelections(selections, joinColumns);
-  addSelections(selections, inverseJoinColumns);
+  const joinColumns: ColumnMetadata[] = [
+    ...relation.joinColumns,
+    ...relation.inverseJoinColumns,
+    ...(relation.inverseRelation?.joinColumns ?? []),
+    ...(relation.inverseRelation?.inverseJoinColumns ?? []),
+  ];
 
-  if (!relation.inverseRelation) {
-    return;
-  }
+  joinColumns.forEach(({ referencedColumn }) => {
+    if (!referencedColumn) {
+      return;
+    }
 
-  const inverseRelationJoinColumns: string[] =
-    relation.inverseRelation.joinColumns.map(
-      (joinColumn) => relationAlias + '.' + joinColumn.databaseName,
-    );
-  const inverseRelationInverseJoinColumns: string[] =
-    relation.inverseRelation.inverseJoinColumns.map(
-      (joinColumn) => alias + '.' + joinColumn.databaseName,
-    );
-  addSelections(selections, inverseRelationJoinColumns);
-  addSelections(selections, inverseRelationInverseJoinColumns);
+    // Self relations reference columns of both sides
+    const tableName: string = referencedColumn.entityMetadata.tableName;
+    if (tableName === relation.entityMetadata.tableName) {
+      addSelections(selections, [alias + '.' + referencedColumn.propertyPath]);
+    }
+    if (tableName === relation.inverseEntityMetadata.tableName) {
+      addSelections(selections, [
+        relationAlias + '.' + referencedColumn.propertyPath,
+      ]);
+    }
+  });
+}
+
+/**
+ * Flattens a field path (e.g. 'address.city', 'payload->customer') into a plain name,
+ * usable in parameter names and raw selection aliases
+ * @param path field path
+ */
+function toPlainName(path: string): string {
+  return path.replace(/\W+/g, ALIAS_STRATEGY);
+}
+
+/**
+ * Resolves the column a JSON path of an entity goes into
+ * @param qb query builder
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param field JSON path at entity level (e.g. 'payload->customer->tier')
+ * @returns escaped SQL column, its metadata and JSON keys
+ */
+function resolveJsonColumn<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  metadata: EntityMetadata,
+  field: string,
+): [string, ColumnMetadata, string[]] {
+  const [columnPath, keys] = splitJsonPath(field);
+  const column = findColumnByPath(metadata, columnPath) as ColumnMetadata;
+
+  return [
+    qb.escape(alias) + '.' + qb.escape(column.databaseName),
+    column,
+    keys,
+  ];
 }
 
 /**
@@ -76,271 +194,2743 @@ function selectJoinNeccessaryAttributes(
  * @param selections already selected attributes
  * @param tree QueryTree
  * @param alias Entity alias
+ * @param metadata Entity metadata
  */
 function selectEntityQueryFields(
   selections: string[],
   tree: QueryTree,
   alias: string,
+  metadata: EntityMetadata,
 ): void {
   // Firstly, we list all selected fields at this level of the query tree
+  // Relation-id properties are loaded by TypeORM along with their entity,
+  // we just need to select the join column holding them (if any)
   const selectedFields = tree.fields
     .filter((field) => !field.isRelation())
-    .map((field) => alias + '.' + field.name);
+    .flatMap((field) => {
+      // JSON paths select their whole column, picked once entities are loaded
+      const [columnPath] = splitJsonPath(field.name);
+      // Computed fields are selected by their expression (see selectComputedFields)
+      if (isComputedField(metadata, columnPath)) {
+        return [];
+      }
+      if (!findRelationId(metadata, columnPath)) {
+        return [alias + '.' + columnPath];
+      }
+
+      const column = findColumnByPath(metadata, field.name);
+      return column ? [alias + '.' + column.propertyPath] : [];
+    });
+
+  // Entities are matched with their rows by primary columns to set computed fields into them,
+  // which also ensures they are loaded when just computed fields are selected
+  if (
+    tree.fields.some(
+      (field) => !field.isRelation() && isComputedField(metadata, field.name),
+    )
+  ) {
+    selectedFields.push(
+      ...metadata.primaryColumns.map(
+        (column) => alias + '.' + column.propertyPath,
+      ),
+    );
+  }
 
   // We select all of above
   addSelections(selections, selectedFields);
 }
 
 /**
- * Function to add order by options to query
+ * Checks if a field is computed by an SQL expression instead of being a column:
+ * virtual fields and relation pseudo-fields (e.g. 'articles.$count')
+ * @param metadata Entity metadata
+ * @param field field name at entity level
+ */
+function isComputedField(metadata: EntityMetadata, field: string): boolean {
+  return (
+    !!findVirtualFieldColumn(metadata, field) ||
+    !!findRelationAggregate(metadata, field)
+  );
+}
+
+/**
+ * Returns the plain alias a computed field of an entity is selected under
+ * e.g. ('order', 'articles.$count') -> 'order__articles__count'
+ * @param alias Entity alias
+ * @param field field name at entity level
+ */
+function getComputedFieldAlias(alias: string, field: string): string {
+  return alias + ALIAS_STRATEGY + toPlainName(field);
+}
+
+/**
+ * Selects a computed field under a plain alias, unless it is already selected
+ * Its values are set into entities once they are loaded (see hydrateComputedFields)
+ * @param qb query builder
+ * @param tree computed field node
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @returns alias the field is selected under
+ */
+function selectComputedField<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): string {
+  const selectAlias: string = getComputedFieldAlias(alias, tree.name);
+  if (
+    !qb.expressionMap.selects.some((select) => select.aliasName === selectAlias)
+  ) {
+    const column = findVirtualFieldColumn(metadata, tree.name);
+    qb.addSelect(
+      column
+        ? buildVirtualFieldExpression(qb, alias, column)
+        : buildRelationAggregateExpression(
+            qb,
+            tree,
+            alias,
+            metadata,
+            withDeleted,
+            operators,
+          ),
+      selectAlias,
+    );
+  }
+
+  return selectAlias;
+}
+
+/**
+ * Function to select requested computed fields (virtual fields and relation pseudo-fields)
  * @param qb query builder
  * @param tree QueryTree
  * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
  */
-function addOrderByOptions<T extends ObjectLiteral>(
+function selectComputedFields<T extends ObjectLiteral>(
   qb: SelectQueryBuilder<T>,
   tree: QueryTree,
   alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
 ): void {
-  // We add order options
-  if (tree.clauses.ordering) {
-    tree.clauses.ordering.forEach(({ field, type }) => {
-      switch (type) {
-        case OrderType.ASC:
-          qb.addOrderBy(alias + '.' + field, 'ASC');
-          break;
-        case OrderType.DESC:
-          qb.addOrderBy(alias + '.' + field, 'DESC');
-          break;
-        default:
-          break;
-      }
-    });
+  tree.fields
+    .filter(
+      (field) => !field.isRelation() && isComputedField(metadata, field.name),
+    )
+    .forEach((field) =>
+      selectComputedField(qb, field, alias, metadata, withDeleted, operators),
+    );
+}
+
+/**
+ * Builds the SQL a field of a joined entity is referred to by: its property path,
+ * which TypeORM replaces by its column, or the expression of a virtual field
+ * @param qb query builder
+ * @param alias alias of the entity field belongs to
+ * @param field field path at entity level
+ */
+function buildFieldExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  field: string,
+): string {
+  const column = findVirtualFieldColumn(
+    qb.expressionMap.findAliasByName(alias).metadata,
+    field,
+  );
+
+  return column
+    ? buildVirtualFieldExpression(qb, alias, column)
+    : alias + '.' + field;
+}
+
+/**
+ * Builds the SQL expression of an entity column, or of a virtual field
+ * @param qb query builder
+ * @param alias Entity alias
+ * @param column column metadata
+ */
+function buildColumnExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  column: ColumnMetadata,
+): string {
+  return column.isVirtualProperty
+    ? buildVirtualFieldExpression(qb, alias, column)
+    : qb.escape(alias) + '.' + qb.escape(column.databaseName);
+}
+
+/**
+ * Builds the SQL expression ranking entities by full-text search. Just search fields
+ * joined in the query (i.e. not through to-many relations) take part in the rank
+ * @param qb query builder
+ * @param tree QueryTree
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @returns rank expression, or undefined if entities are not searched by full-text
+ */
+function buildSearchRankExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+): string | undefined {
+  const { search } = tree.clauses;
+  if (search?.mode !== SearchMode.FULL_TEXT) {
+    return undefined;
   }
+
+  const sqlFields: string[] = search.fields
+    .filter((field) =>
+      splitEntityPath(metadata, field)[0].every(
+        (relation) => relation.isManyToOne || relation.isOneToOne,
+      ),
+    )
+    .map((field) =>
+      buildFieldExpression(qb, ...resolveFieldAlias(qb, alias, field)),
+    );
+  if (!sqlFields.length) {
+    return undefined;
+  }
+
+  assertFullTextDriver(qb.connection.options.type);
+  qb.setParameter(SEARCH_TERM_PARAMETER, search.term.trim());
+
+  return (
+    "ts_rank(to_tsvector(concat_ws(' ', " +
+    sqlFields.join(', ') +
+    ')), plainto_tsquery(:' +
+    SEARCH_TERM_PARAMETER +
+    '))'
+  );
 }
 
 /**
- * Function to add where options to query
+ * Function to order entities by full-text search rank, if they are searched by full-text
+ * Rank is selected under a plain alias to be sorted by (see addOrderByOptions)
  * @param qb query builder
  * @param tree QueryTree
  * @param alias Entity alias
+ * @param metadata Entity metadata
  */
-function addWhereOptions<T extends ObjectLiteral>(
+function addSearchRankOrderBy<T extends ObjectLiteral>(
   qb: SelectQueryBuilder<T>,
   tree: QueryTree,
   alias: string,
+  metadata: EntityMetadata,
 ): void {
-  // We add where options if there are any
-  if (tree.clauses.where) {
-    tree.clauses.where.forEach(({ field, operator, value }) => {
-      const placeholder: string = alias + ALIAS_STRATEGY + field;
-      const sqlField: string = alias + '.' + field;
-
-      switch (operator) {
-        case FilterOperator.IN: {
-          const listValues: string[] = value.replaceAll(' ', '').split(',');
-          qb.andWhere(sqlField + ' IN (:...' + placeholder + ')', {
-            [`${placeholder}`]: listValues,
-          });
-          break;
-        }
-        case FilterOperator.CONTAINS:
-          qb.andWhere(sqlField + ' LIKE :' + placeholder, {
-            [`${placeholder}`]: '%' + value + '%',
-          });
-          break;
-        case FilterOperator.STARTS_WITH:
-          qb.andWhere(sqlField + ' LIKE :' + placeholder, {
-            [`${placeholder}`]: value + '%',
-          });
-          break;
-        case FilterOperator.ENDS_WITH:
-          qb.andWhere(sqlField + ' LIKE :' + placeholder, {
-            [`${placeholder}`]: '%' + value,
-          });
-          break;
-        case FilterOperator.LOWER:
-          qb.andWhere(sqlField + ' < :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        case FilterOperator.LOWER_OR_EQUAL:
-          qb.andWhere(sqlField + ' <= :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        case FilterOperator.GREATER:
-          qb.andWhere(sqlField + ' > :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        case FilterOperator.GREATER_OR_EQUAL:
-          qb.andWhere(sqlField + ' >= :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        case FilterOperator.NOT_EQUAL:
-          qb.andWhere(sqlField + ' != :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        default: {
-          qb.andWhere(sqlField + ' = :' + placeholder, {
-            [`${placeholder}`]: value,
-          });
-          break;
-        }
-      }
-    });
+  const rank = buildSearchRankExpression(qb, tree, alias, metadata);
+  if (rank) {
+    const rankAlias: string = alias + ALIAS_STRATEGY + 'rank';
+    qb.addSelect(rank, rankAlias);
+    qb.addOrderBy(rankAlias, 'DESC');
   }
 }
 
 /**
- * Builds TypeORM query with the query builder recursively,
- * joining every requested relation,
- * selection every asked attribute,
- * adding query options.
+ * Function to add order by options to query
+ * @param qb query builder
  * @param tree QueryTree
- * @param qb SelectQueryBuilder
  * @param alias Entity alias
  * @param metadata Entity metadata
- * @param selections All selections being done
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
  */
-function buildQueryRecursively<T extends ObjectLiteral>(
-  tree: QueryTree,
+function addOrderByOptions<T extends ObjectLiteral>(
   qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
   alias: string,
   metadata: EntityMetadata,
-  selections: string[],
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
 ): void {
-  selectEntityQueryFields(selections, tree, alias);
-  addOrderByOptions(qb, tree, alias);
-  addWhereOptions(qb, tree, alias);
-
-  // For each relation of query
-  tree.fields
-    .filter((field) => field.isRelation())
-    .forEach((relationTree) => {
-      const relation = metadata.findRelationWithPropertyPath(relationTree.name);
+  // We add order options
+  if (tree.clauses.ordering) {
+    tree.clauses.ordering.forEach(({ field, type }) => {
+      let sqlField = alias + '.' + getColumnPropertyPath(metadata, field);
 
-      // If the relation query tree is asking for exists in entity, we join it recursively
-      if (relation) {
-        // const relationAlias =
-        //   qb.connection.namingStrategy.eagerJoinRelationAlias(
-        //     alias,
-        //     relation.propertyPath,
-        //   );
-        const relationAlias = alias + ALIAS_STRATEGY + relation.propertyPath;
-        selectJoinNeccessaryAttributes(
-          selections,
-          relation,
+      // JSON values and computed fields are selected under a plain alias to be sorted by,
+      // since TypeORM only sorts paginated queries by properties or selections
+      if (isComputedField(metadata, field)) {
+        sqlField = selectComputedField(
+          qb,
+          tree.getField(field) ?? new QueryTree(field),
           alias,
-          relationAlias,
+          metadata,
+          withDeleted,
+          operators,
         );
-        qb.leftJoin(alias + '.' + relation.propertyPath, relationAlias);
-        buildQueryRecursively(
-          relationTree,
+      } else if (splitJsonPath(field)[1].length) {
+        const [sqlColumn, column, keys] = resolveJsonColumn(
           qb,
-          relationAlias,
-          relation.inverseEntityMetadata,
-          selections,
+          alias,
+          metadata,
+          field,
+        );
+        sqlField = alias + ALIAS_STRATEGY + toPlainName(field);
+        qb.addSelect(
+          buildJsonValueExpression(qb, sqlColumn, column, keys),
+          sqlField,
         );
       }
+
+      switch (type) {
+        case OrderType.ASC:
+          qb.addOrderBy(sqlField, 'ASC');
+          break;
+        case OrderType.DESC:
+          qb.addOrderBy(sqlField, 'DESC');
+          break;
+        default:
+          break;
+      }
     });
+  }
 }
 
 /**
- * Generates TypeORM query builder based on QueryTree args, relations & options
- * @param dataSource TypeORM DataSource
- * @param tree QueryTree
- * @param entityClass Entity
+ * Returns a parameter name not used yet in the query,
+ * so the same field can be filtered more than once
+ * @param qb query builder
+ * @param name desired parameter name
  */
-function generateQueryBuilder<T extends ObjectLiteral>(
-  dataSource: DataSource,
-  entityClass: ObjectType<T> | EntitySchema<T> | string,
-  tree: QueryTree,
-): SelectQueryBuilder<T> {
-  const metadata = dataSource.getMetadata(entityClass);
-  const qb = dataSource.createQueryBuilder<T>(entityClass, metadata.tableName);
-
-  qb.select([]); // Clear any selected attributes in the query builder
-  const selections: string[] = []; // Prepare array of selected attributes
-  buildQueryRecursively<T>(tree, qb, qb.alias, metadata, selections);
-  qb.select(selections); // Add selected attributes to select
-
-  return qb;
+function getUniqueParameterName<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  name: string,
+): string {
+  let uniqueName = name;
+  let index = 1;
+  while (qb.hasParameter(uniqueName)) {
+    uniqueName = name + ALIAS_STRATEGY + index++;
+  }
+  return uniqueName;
 }
 
+// Parameter name of the term search rank is computed with
+const SEARCH_TERM_PARAMETER: string = 'search' + ALIAS_STRATEGY + 'term';
+
 /**
- * DYNAMIC REPOSITORY
- * This class helps to resolve any query based on a query tree
- * It can find any type of entity, join every requested relation and select asked attributes.
- *
- * FEATURES:
- * - Finds any given entity including all of its relations recursively by default
- * - If selections (attributes) are specified, only those will be returned
- * - If no selections (attributes) specified, all are selected by default
- * - It can receive all sorts of filters and options, regardless at what level of entity or relation
- * - It automatically handles recursive or cyclical relation dependencies
- *
+ * Function to build the SQL condition of a single filter, with its registered operator
+ * @param qb query builder
+ * @param filter filter
+ * @param alias Entity alias
+ * @param operators filter operator registry
+ * @returns SQL condition and its parameters
  */
-export class DynamicRepository implements CommonRepository {
-  constructor(
-    private readonly dataSource: DataSource,
-    private readonly debug: boolean,
-  ) {}
-
-  /**
-   * Finds and counts multiple instances of entity
-   * @param entityClass Entity to find (e.g. 'Order')
-   * @param findOptions DynamicRepository find options, repo can work differently depending on them
-   * @param queryOptions Selections, filters, ordering...
-   * @param skip offset
-   * @param take page size
-   * @returns An array of T and its total excluding pagination
-   */
-  public async findAndCount<T extends ObjectLiteral>(
-    ...args: PaginatedFindParams<T>
-  ): Promise<[T[], number]> {
-    const [entityClass, queryOptions, findOptions, skip, take] = args;
-
-    if (!skip && !take) {
-      // If there is no pagination, we can save one SQL query
-      // as we can count results on our side
-      const findResults = await this.find(...args);
-      return [findResults, findResults.length];
-    }
+function buildFilterCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  { field, operator, value }: FilterType,
+  alias: string,
+  operators: FilterOperatorRegistry,
+): [string, ObjectLiteral] {
+  const definition = getFilterOperator(operators, operator);
+  const [fieldAlias, fieldName] = resolveFieldAlias(qb, alias, field);
+  const placeholder: string = getUniqueParameterName(
+    qb,
+    fieldAlias + ALIAS_STRATEGY + toPlainName(fieldName),
+  );
+  let sqlField: string = buildFieldExpression(qb, fieldAlias, fieldName);
 
-    const query: QueryTree = QueryTree.createTree(
-      this.dataSource,
-      entityClass,
-      queryOptions,
-      findOptions,
+  // Fields inside JSON documents are compared by their extracted value,
+  // unless operator works on the document itself
+  if (splitJsonPath(fieldName)[1].length || definition.json) {
+    const [sqlColumn, column, keys] = resolveJsonColumn(
+      qb,
+      fieldAlias,
+      qb.expressionMap.findAliasByName(fieldAlias).metadata,
+      fieldName,
     );
 
-    if (this.debug) {
-      console.log('findAndCount query tree:');
-      console.log(JSON.stringify(query.toObject(), null, 2));
-    }
+    sqlField = definition.json
+      ? buildJsonDocumentExpression(qb, sqlColumn, column, keys)
+      : buildJsonValueExpression(qb, sqlColumn, column, keys, value);
+  }
 
-    const qb = generateQueryBuilder<T>(this.dataSource, entityClass, query);
+  return definition.build(
+    qb,
+    sqlField,
+    placeholder,
+    value ?? null,
+    qb.connection.options.type,
+  );
+}
 
-    if (this.debug) {
-      console.log('findAndCount SQL query:');
-      console.log(qb.getSql());
-      console.log(qb.getParameters());
+// How soft deleted rows are treated: excluded (default), included or the only ones found
+type SoftDeleteMode = 'exclude' | 'include' | 'only';
+
+/**
+ * Returns how soft deleted rows of found entities are treated, depending on find options
+ * @param findOptions DynamicRepository find options
+ */
+function getSoftDeleteMode(findOptions?: CommonFindOptions): SoftDeleteMode {
+  if (findOptions?.onlyDeleted) {
+    return 'only';
+  }
+
+  return findOptions?.withDeleted ? 'include' : 'exclude';
+}
+
+/**
+ * Function to build the SQL condition excluding (or just keeping) soft deleted rows of an entity
+ * @param qb query builder
+ * @param metadata Entity metadata
+ * @param alias Entity alias
+ * @param mode how soft deleted rows are treated
+ * @returns SQL condition, or undefined if no condition is needed
+ */
+function buildSoftDeleteCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  metadata: EntityMetadata,
+  alias: string,
+  mode: SoftDeleteMode,
+): string | undefined {
+  const { deleteDateColumn } = metadata;
+
+  if (!deleteDateColumn || mode === 'include') {
+    return undefined;
+  }
+
+  return (
+    qb.escape(alias) +
+    '.' +
+    qb.escape(deleteDateColumn.databaseName) +
+    (mode === 'only' ? ' IS NOT NULL' : ' IS NULL')
+  );
+}
+
+/**
+ * Creates a subquery on the related entities of a to-many relation, linked to the entity alias
+ * Soft deleted related entities are excluded, unless they are taken into account
+ * @param qb query builder
+ * @param relation to-many relation
+ * @param alias Entity alias
+ * @param relatedAlias alias of related entities in the subquery
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @returns subquery builder, selecting 1
+ */
+function createRelationSubQuery<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  relation: RelationMetadata,
+  alias: string,
+  relatedAlias: string,
+  withDeleted: boolean,
+): SelectQueryBuilder<ObjectLiteral> {
+  const subQb = qb
+    .subQuery()
+    .withDeleted() // Soft deleted rows are handled below
+    .select('1')
+    .from(relation.inverseEntityMetadata.target, relatedAlias);
+
+  const softDeleteCondition = buildSoftDeleteCondition(
+    subQb,
+    relation.inverseEntityMetadata,
+    relatedAlias,
+    withDeleted ? 'include' : 'exclude',
+  );
+  if (softDeleteCondition) {
+    subQb.andWhere(softDeleteCondition);
+  }
+
+  // Link related entities to the entity being filtered
+  const linkAlias: string = joinToManyLink(subQb, relation, relatedAlias);
+  const [ownerColumns, linkColumns] = getToManyLinkColumns(relation);
+  linkColumns.forEach((column, index) =>
+    subQb.andWhere(
+      subQb.escape(linkAlias) +
+        '.' +
+        subQb.escape(column.databaseName) +
+        ' = ' +
+        subQb.escape(alias) +
+        '.' +
+        subQb.escape(ownerColumns[index].databaseName),
+    ),
+  );
+
+  return subQb;
+}
+
+/**
+ * Function to build the EXISTS SQL condition of a quantified filter on a to-many relation
+ * Related entities are looked up in a subquery linked to the entity alias,
+ * joining any nested relation of the filter path inside it
+ * some -> EXISTS (related matching), none -> NOT EXISTS (related matching),
+ * every -> NOT EXISTS (related not matching)
+ * @param qb query builder
+ * @param filter quantified filter (e.g. 'articles.price')
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @returns SQL condition, its parameters are already set in query builder
+ */
+function buildQuantifiedCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  filter: FilterType,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): string {
+  const [relation, path] = splitRelationPath(metadata, filter.field) as [
+    RelationMetadata,
+    string,
+  ];
+  const relatedAlias: string = createJoinAlias(
+    [qb],
+    relation.propertyName,
+    filter.quantifier,
+  );
+
+  const softDeleteMode: SoftDeleteMode = withDeleted ? 'include' : 'exclude';
+  const subQb = createRelationSubQuery(
+    qb,
+    relation,
+    alias,
+    relatedAlias,
+    withDeleted,
+  );
+
+  // Nested relations of the path are joined inside the subquery
+  splitEntityPath(relation.inverseEntityMetadata, path)[0].reduce<string>(
+    (parentAlias, nestedRelation) => {
+      const nestedAlias: string = createJoinAlias(
+        [qb, subQb],
+        nestedRelation.propertyName,
+        filter.quantifier,
+      );
+      const nestedMetadata = nestedRelation.inverseEntityMetadata;
+      subQb.leftJoin(
+        parentAlias + '.' + nestedRelation.propertyPath,
+        nestedAlias,
+        buildSoftDeleteCondition(
+          subQb,
+          nestedMetadata,
+          nestedAlias,
+          softDeleteMode,
+        ),
+      );
+      return nestedAlias;
+    },
+    relatedAlias,
+  );
+
+  const [condition, parameters] = buildFilterCondition(
+    subQb,
+    { ...filter, field: path },
+    relatedAlias,
+    operators,
+  );
+
+  if (filter.quantifier === FilterQuantifier.EVERY) {
+    // Unknown (NULL) results do not match either
+    subQb.andWhere(
+      '(CASE WHEN ' + condition + ' THEN 1 ELSE 0 END) = 0',
+      parameters,
+    );
+  } else {
+    subQb.andWhere(condition, parameters);
+  }
+
+  return (
+    (filter.quantifier === FilterQuantifier.SOME ? 'EXISTS ' : 'NOT EXISTS ') +
+    subQb.getQuery()
+  );
+}
+
+/**
+ * Function to build the condition of a filter scoping related entities of a relation pseudo-field,
+ * inside its subquery. Nested to-one relations of the filter path are joined, while
+ * to-many ones are checked with EXISTS subqueries, so related entities are never repeated
+ * @param qb query builder the subquery belongs to
+ * @param subQb pseudo-field subquery builder
+ * @param filter scope filter, relative to entity alias
+ * @param alias Entity alias in the subquery
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @returns SQL condition, its parameters are already set in query builder
+ */
+function buildScopeCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  subQb: SelectQueryBuilder<ObjectLiteral>,
+  filter: FilterType,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): string {
+  const split = splitRelationPath(metadata, filter.field);
+  if (!split) {
+    const [condition, parameters] = buildFilterCondition(
+      subQb,
+      filter,
+      alias,
+      operators,
+    );
+    subQb.setParameters(parameters);
+    return condition;
+  }
+
+  const [relation, path] = split;
+  if (relation.isOneToMany || relation.isManyToMany) {
+    return buildQuantifiedCondition(
+      subQb,
+      { ...filter, quantifier: FilterQuantifier.SOME },
+      alias,
+      metadata,
+      withDeleted,
+      operators,
+    );
+  }
+
+  let relationAlias = findJoinAlias(subQb, alias, relation.propertyPath);
+  if (!relationAlias) {
+    relationAlias = createJoinAlias([qb, subQb], relation.propertyName);
+    subQb.leftJoin(
+      alias + '.' + relation.propertyPath,
+      relationAlias,
+      buildSoftDeleteCondition(
+        subQb,
+        relation.inverseEntityMetadata,
+        relationAlias,
+        withDeleted ? 'include' : 'exclude',
+      ),
+    );
+  }
+
+  return buildScopeCondition(
+    qb,
+    subQb,
+    { ...filter, field: path },
+    relationAlias,
+    relation.inverseEntityMetadata,
+    withDeleted,
+    operators,
+  );
+}
+
+/**
+ * Function to build the correlated subquery of a relation pseudo-field (e.g. 'articles.$count'):
+ * the number of related entities matching its scope filters, or 1 / 0 whether there is any
+ * @param qb query builder
+ * @param tree pseudo-field node, whose filters scope related entities
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @returns SQL expression, its parameters are already set in query builder
+ */
+function buildRelationAggregateExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): string {
+  const [relation, aggregate] = findRelationAggregate(metadata, tree.name) as [
+    RelationMetadata,
+    RelationAggregate,
+  ];
+  const relatedAlias: string = createJoinAlias(
+    [qb],
+    relation.propertyName,
+    aggregate.substring(1), // e.g. articles__count__1
+  );
+  const subQb = createRelationSubQuery(
+    qb,
+    relation,
+    alias,
+    relatedAlias,
+    withDeleted,
+  );
+
+  tree.clauses.where?.forEach((filter) =>
+    subQb.andWhere(
+      buildScopeCondition(
+        qb,
+        subQb,
+        filter as FilterType,
+        relatedAlias,
+        relation.inverseEntityMetadata,
+        withDeleted,
+        operators,
+      ),
+    ),
+  );
+
+  if (aggregate === RelationAggregate.COUNT) {
+    return subQb.select('COUNT(*)').getQuery();
+  }
+
+  return 'CASE WHEN EXISTS ' + subQb.getQuery() + ' THEN 1 ELSE 0 END';
+}
+
+/**
+ * Function to add a filter expression (leaf or and / or / not group) to a where builder
+ * Groups are added recursively wrapped in brackets
+ * @param qb query builder
+ * @param wb where builder (query builder itself or brackets builder)
+ * @param expression filter expression
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @param conjunction how expression is joined with previous ones
+ */
+function addFilterExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  wb: WhereExpressionBuilder,
+  expression: FilterExpression,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+  conjunction: 'and' | 'or',
+): void {
+  if (!isFilterGroup(expression)) {
+    const [condition, parameters]: [string, ObjectLiteral] =
+      expression.quantifier
+        ? [
+            buildQuantifiedCondition(
+              qb,
+              expression,
+              alias,
+              metadata,
+              withDeleted,
+              operators,
+            ),
+            {},
+          ]
+        : buildFilterCondition(qb, expression, alias, operators);
+    if (conjunction === 'or') {
+      wb.orWhere(condition, parameters);
+    } else {
+      wb.andWhere(condition, parameters);
+    }
+    return;
+  }
+
+  let brackets: Brackets;
+
+  if ('not' in expression) {
+    brackets = new NotBrackets((groupWb) =>
+      addFilterExpression(
+        qb,
+        groupWb,
+        expression.not,
+        alias,
+        metadata,
+        withDeleted,
+        operators,
+        'and',
+      ),
+    );
+  } else {
+    const expressions = 'and' in expression ? expression.and : expression.or;
+    const groupConjunction = 'and' in expression ? 'and' : 'or';
+
+    // Empty groups do not filter anything
+    if (!expressions.length) {
+      return;
+    }
+
+    brackets = new Brackets((groupWb) =>
+      expressions.forEach((groupExpression) =>
+        addFilterExpression(
+          qb,
+          groupWb,
+          groupExpression,
+          alias,
+          metadata,
+          withDeleted,
+          operators,
+          groupConjunction,
+        ),
+      ),
+    );
+  }
+
+  if (conjunction === 'or') {
+    wb.orWhere(brackets);
+  } else {
+    wb.andWhere(brackets);
+  }
+}
+
+/**
+ * Function to add where options to query
+ * @param qb query builder
+ * @param tree QueryTree
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ */
+function addWhereOptions<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): void {
+  // Groups going through relations not joined (i.e. detached ones) are checked apart
+  const isDetachedGroup = (expression: FilterExpression): boolean =>
+    isFilterGroup(expression) &&
+    getFilterLeaves(expression).some(
+      ({ field, quantifier }) => !quantifier && !isPathJoined(qb, alias, field),
+    );
+
+  // We add where options if there are any
+  if (tree.clauses.where) {
+    tree.clauses.where
+      .filter((expression) => !isDetachedGroup(expression))
+      .forEach((expression) =>
+        addFilterExpression(
+          qb,
+          qb,
+          expression,
+          alias,
+          metadata,
+          withDeleted,
+          operators,
+          'and',
+        ),
+      );
+
+    const detachedGroups = tree.clauses.where.filter(isDetachedGroup);
+    if (detachedGroups.length) {
+      qb.andWhere(
+        buildDetachedGroupsCondition(
+          qb,
+          detachedGroups,
+          alias,
+          metadata,
+          withDeleted,
+          operators,
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Checks if every relation of a field path has been joined in the query
+ * @param qb query builder
+ * @param alias Entity alias
+ * @param field field path relative to entity
+ */
+function isPathJoined<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  field: string,
+): boolean {
+  const metadata = qb.expressionMap.findAliasByName(alias).metadata;
+
+  return !!splitEntityPath(metadata, field)[0].reduce<string | undefined>(
+    (parentAlias, relation) =>
+      parentAlias && findJoinAlias(qb, parentAlias, relation.propertyPath),
+    alias,
+  );
+}
+
+/**
+ * Function to build the EXISTS SQL condition of filter groups going through detached relations
+ * Groups are checked on a copy of the entity joining their relations in a subquery,
+ * so they match the same related rows they would if relations were joined in the query
+ * @param qb query builder
+ * @param groups filter groups
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ * @returns SQL condition, its parameters are already set in query builder
+ */
+function buildDetachedGroupsCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  groups: FilterExpression[],
+  alias: string,
+  metadata: EntityMetadata,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): string {
+  const copyAlias: string = createJoinAlias([qb], alias, 'group');
+  const subQb = qb
+    .subQuery()
+    .withDeleted() // The copy is the entity row itself, already filtered
+    .select('1')
+    .from(metadata.target, copyAlias);
+
+  metadata.primaryColumns.forEach((column) =>
+    subQb.andWhere(
+      subQb.escape(copyAlias) +
+        '.' +
+        subQb.escape(column.databaseName) +
+        ' = ' +
+        subQb.escape(alias) +
+        '.' +
+        subQb.escape(column.databaseName),
+    ),
+  );
+
+  // Relations of group fields are joined as they would be in the query
+  groups
+    .flatMap(getFilterLeaves)
+    .filter(({ quantifier }) => !quantifier)
+    .forEach(({ field }) =>
+      splitEntityPath(metadata, field)[0].reduce<string>(
+        (parentAlias, relation) => {
+          let relationAlias = findJoinAlias(
+            subQb,
+            parentAlias,
+            relation.propertyPath,
+          );
+          if (!relationAlias) {
+            relationAlias = createJoinAlias(
+              [qb, subQb],
+              relation.propertyName,
+              'group',
+            );
+            subQb.leftJoin(
+              parentAlias + '.' + relation.propertyPath,
+              relationAlias,
+              buildSoftDeleteCondition(
+                subQb,
+                relation.inverseEntityMetadata,
+                relationAlias,
+                withDeleted ? 'include' : 'exclude',
+              ),
+            );
+          }
+          return relationAlias;
+        },
+        copyAlias,
+      ),
+    );
+
+  groups.forEach((group) =>
+    addFilterExpression(
+      subQb,
+      subQb,
+      group,
+      copyAlias,
+      metadata,
+      withDeleted,
+      operators,
+      'and',
+    ),
+  );
+
+  return 'EXISTS ' + subQb.getQuery();
+}
+
+/**
+ * Returns the plain alias a detached relation ordering is selected under
+ * e.g. ('order', 'articles.id') -> 'order__sort__articles__id'
+ * @param alias alias of the relation owner
+ * @param path ordering path from the relation owner
+ */
+function getDetachedSortAlias(alias: string, path: string): string {
+  return alias + ALIAS_STRATEGY + 'sort' + ALIAS_STRATEGY + toPlainName(path);
+}
+
+/**
+ * Function to apply filters and ordering of a detached to-many relation subtree to its owners,
+ * since its related entities are loaded in their own query. Subtree filters are checked in
+ * an EXISTS subquery on related entities, joining their nested relations. Owners are sorted by
+ * the lowest (ascending) or highest (descending) value of matching related entities,
+ * as they are when relation is joined, selected under plain aliases (see getDetachedSortAlias)
+ * @param qb query builder
+ * @param tree relation subtree
+ * @param relation to-many relation
+ * @param alias alias of the relation owner
+ * @param withDeleted whether soft deleted related entities are taken into account
+ * @param operators filter operator registry
+ */
+function addDetachedRelationClauses<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  relation: RelationMetadata,
+  alias: string,
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+): void {
+  const relatedAlias: string = createJoinAlias(
+    [qb],
+    relation.propertyName,
+    'detached',
+  );
+  const subQb = createRelationSubQuery(
+    qb,
+    relation,
+    alias,
+    relatedAlias,
+    withDeleted,
+  );
+
+  // Orderings of the subtree by their path from the owner, in query tree order
+  const orderings: [string, OrderType, string][] = [];
+  let filtered: boolean = false;
+
+  const addNodeClauses = (
+    node: QueryTree,
+    nodeAlias: string,
+    nodeMetadata: EntityMetadata,
+    path: string,
+  ): void => {
+    node.clauses.ordering?.forEach(({ field, type }) => {
+      let sqlField: string;
+      if (findRelationAggregate(nodeMetadata, field)) {
+        sqlField = buildRelationAggregateExpression(
+          subQb,
+          node.getField(field) ?? new QueryTree(field),
+          nodeAlias,
+          nodeMetadata,
+          withDeleted,
+          operators,
+        );
+      } else {
+        const [columnPath, jsonKeys] = splitJsonPath(field);
+        const column = findColumnByPath(
+          nodeMetadata,
+          columnPath,
+        ) as ColumnMetadata;
+        sqlField = buildColumnExpression(subQb, nodeAlias, column);
+        if (jsonKeys.length) {
+          sqlField = buildJsonValueExpression(
+            subQb,
+            sqlField,
+            column,
+            jsonKeys,
+          );
+        }
+      }
+      orderings.push([path + '.' + field, type, sqlField]);
+    });
+
+    node.fields
+      .filter((field) => field.isRelation())
+      .forEach((relationTree) => {
+        const nestedRelation = nodeMetadata.findRelationWithPropertyPath(
+          relationTree.name,
+        );
+        if (!nestedRelation) {
+          return;
+        }
+
+        const nestedAlias: string = createJoinAlias(
+          [qb, subQb],
+          nestedRelation.propertyName,
+          'detached',
+        );
+        subQb.leftJoin(
+          nodeAlias + '.' + nestedRelation.propertyPath,
+          nestedAlias,
+          buildSoftDeleteCondition(
+            subQb,
+            nestedRelation.inverseEntityMetadata,
+            nestedAlias,
+            withDeleted ? 'include' : 'exclude',
+          ),
+        );
+        addNodeClauses(
+          relationTree,
+          nestedAlias,
+          nestedRelation.inverseEntityMetadata,
+          path + '.' + nestedRelation.propertyPath,
+        );
+      });
+
+    // Filters are added once nested relations are joined, as in buildQueryRecursively
+    if (node.clauses.where?.length) {
+      filtered = true;
+      addWhereOptions(
+        subQb,
+        node,
+        nodeAlias,
+        nodeMetadata,
+        withDeleted,
+        operators,
+      );
+    }
+  };
+
+  addNodeClauses(
+    tree,
+    relatedAlias,
+    relation.inverseEntityMetadata,
+    relation.propertyPath,
+  );
+
+  if (filtered) {
+    qb.andWhere('EXISTS ' + subQb.getQuery());
+  }
+
+  // Just matching related entities sort their owners
+  orderings.forEach(([path, type, sqlField]) => {
+    const sortAlias: string = getDetachedSortAlias(alias, path);
+    qb.addSelect(
+      subQb
+        .clone()
+        .select((type === OrderType.DESC ? 'MAX(' : 'MIN(') + sqlField + ')')
+        .getQuery(),
+      sortAlias,
+    );
+    qb.addOrderBy(sortAlias, type === OrderType.DESC ? 'DESC' : 'ASC');
+  });
+}
+
+/**
+ * Builds TypeORM query with the query builder recursively,
+ * joining every requested relation,
+ * selection every asked attribute,
+ * adding query options.
+ * @param tree QueryTree
+ * @param qb SelectQueryBuilder
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ * @param selections All selections being done
+ * @param withDeleted whether soft deleted related entities are joined
+ * @param operators filter operator registry
+ * @param detachToMany whether to-many relations are left unjoined, to be loaded in their own queries
+ */
+function buildQueryRecursively<T extends ObjectLiteral>(
+  tree: QueryTree,
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  metadata: EntityMetadata,
+  selections: string[],
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+  detachToMany: boolean,
+): void {
+  selectEntityQueryFields(selections, tree, alias, metadata);
+  selectComputedFields(qb, tree, alias, metadata, withDeleted, operators);
+  addOrderByOptions(qb, tree, alias, metadata, withDeleted, operators);
+
+  // For each relation of query
+  tree.fields
+    .filter((field) => field.isRelation())
+    .forEach((relationTree) => {
+      const relation = metadata.findRelationWithPropertyPath(relationTree.name);
+
+      // Detached to-many relations just filter and sort their owners here
+      if (
+        relation &&
+        detachToMany &&
+        (relation.isOneToMany || relation.isManyToMany)
+      ) {
+        addDetachedRelationClauses(
+          qb,
+          relationTree,
+          relation,
+          alias,
+          withDeleted,
+          operators,
+        );
+        return;
+      }
+
+      // If the relation query tree is asking for exists in entity, we join it recursively
+      if (relation) {
+        const relationAlias = createJoinAlias([qb], relation.propertyName);
+        selectJoinNeccessaryAttributes(
+          selections,
+          relation,
+          alias,
+          relationAlias,
+        );
+        // Soft deleted rows are excluded in join condition, so owners are kept
+        qb.leftJoin(
+          alias + '.' + relation.propertyPath,
+          relationAlias,
+          buildSoftDeleteCondition(
+            qb,
+            relation.inverseEntityMetadata,
+            relationAlias,
+            withDeleted ? 'include' : 'exclude',
+          ),
+        );
+        buildQueryRecursively(
+          relationTree,
+          qb,
+          relationAlias,
+          relation.inverseEntityMetadata,
+          selections,
+          withDeleted,
+          operators,
+          detachToMany,
+        );
+      }
+    });
+
+  // Filters are added once relations are joined, since their paths
+  // are resolved to the aliases relations have been joined with
+  addWhereOptions(qb, tree, alias, metadata, withDeleted, operators);
+
+  // Search rank goes after every explicit ordering, breaking their ties
+  addSearchRankOrderBy(qb, tree, alias, metadata);
+}
+
+/**
+ * Generates TypeORM query builder based on QueryTree args, relations & options
+ * @param manager TypeORM EntityManager the query runs with (e.g. a transaction one)
+ * @param entityClass Entity
+ * @param tree QueryTree
+ * @param softDeleteMode how soft deleted rows are treated. When just soft deleted
+ * entities are found, their relations include soft deleted rows too
+ * @param operators filter operator registry
+ * @param detachToMany whether to-many relations are left unjoined, to be loaded in their own
+ * queries ('query' relation load strategy). Their filters and ordering still apply to entities
+ */
+function generateQueryBuilder<T extends ObjectLiteral>(
+  manager: EntityManager,
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  tree: QueryTree,
+  softDeleteMode: SoftDeleteMode = 'exclude',
+  operators: FilterOperatorRegistry = BUILT_IN_OPERATORS,
+  detachToMany: boolean = false,
+): SelectQueryBuilder<T> {
+  const metadata = manager.connection.getMetadata(entityClass);
+  const qb = manager.createQueryBuilder<T>(entityClass, metadata.tableName);
+
+  if (softDeleteMode === 'only' && !metadata.deleteDateColumn) {
+    throw new RepositoryInvalidArgumentException(
+      `Entity ${metadata.tableName} cannot be soft deleted, it has no delete date column`,
+    );
+  }
+
+  // Soft deleted rows are handled by us at every level,
+  // instead of depending on what TypeORM does for each kind of query
+  qb.withDeleted();
+  const softDeleteCondition = buildSoftDeleteCondition(
+    qb,
+    metadata,
+    qb.alias,
+    softDeleteMode,
+  );
+  if (softDeleteCondition) {
+    qb.andWhere(softDeleteCondition);
+  }
+
+  qb.select([]); // Clear any selected attributes in the query builder
+  const selections: string[] = []; // Prepare array of selected attributes
+  buildQueryRecursively<T>(
+    tree,
+    qb,
+    qb.alias,
+    metadata,
+    selections,
+    softDeleteMode !== 'exclude',
+    operators,
+    detachToMany,
+  );
+  qb.addSelect(selections); // Add selected attributes to select (after raw ones, e.g. sorted JSON values)
+
+  return qb;
+}
+
+/**
+ * Leaves just selected JSON paths (e.g. 'payload->customer') in loaded JSON columns,
+ * unless the whole column is selected too. Relations are explored recursively
+ * @param entities loaded entities
+ * @param tree QueryTree
+ * @param metadata Entity metadata
+ */
+function pickJsonSelections(
+  entities: ObjectLiteral[],
+  tree: QueryTree,
+  metadata: EntityMetadata,
+): void {
+  const fieldNames: string[] = tree.fields
+    .filter((field) => !field.isRelation())
+    .map((field) => field.name);
+
+  // JSON key paths selected by column
+  const jsonSelections: Map<string, string[][]> = new Map();
+  fieldNames.forEach((fieldName) => {
+    const [columnPath, keys] = splitJsonPath(fieldName);
+    if (keys.length && !fieldNames.includes(columnPath)) {
+      jsonSelections.set(columnPath, [
+        ...(jsonSelections.get(columnPath) ?? []),
+        keys,
+      ]);
+    }
+  });
+
+  jsonSelections.forEach((paths, columnPath) => {
+    const column = findColumnByPath(metadata, columnPath) as ColumnMetadata;
+    entities.forEach((entity) =>
+      column.setEntityValue(
+        entity,
+        pickJsonPaths(column.getEntityValue(entity), paths),
+      ),
+    );
+  });
+
+  tree.fields
+    .filter((field) => field.isRelation())
+    .forEach((relationTree) => {
+      const relation = metadata.findRelationWithPropertyPath(relationTree.name);
+      if (!relation) {
+        return;
+      }
+
+      const related: ObjectLiteral[] = entities.flatMap((entity) => {
+        const value = relation.getEntityValue(entity);
+        return Array.isArray(value) ? value : value ? [value] : [];
+      });
+      pickJsonSelections(related, relationTree, relation.inverseEntityMetadata);
+    });
+}
+
+// Sets a computed field value read from raw results into an entity
+type ComputedFieldSetter = (entity: ObjectLiteral, value: unknown) => void;
+
+/**
+ * Sets selected computed fields (virtual fields and relation pseudo-fields) into loaded entities,
+ * reading their values from raw results. Rows are matched with entities by primary columns.
+ * Relations are explored recursively, as long as they are joined in the query
+ * @param qb query builder entities were loaded with
+ * @param raw raw results
+ * @param entities loaded entities
+ * @param tree QueryTree
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ */
+function hydrateComputedFields<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  raw: ObjectLiteral[],
+  entities: ObjectLiteral[],
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+): void {
+  const { driver } = qb.connection;
+
+  // Computed fields of this node, by the alias they are selected under
+  const setters: [string, ComputedFieldSetter][] = tree.fields
+    .filter((field) => !field.isRelation())
+    .flatMap((field): [string, ComputedFieldSetter][] => {
+      const selectAlias: string = getComputedFieldAlias(alias, field.name);
+
+      const column = findVirtualFieldColumn(metadata, field.name);
+      if (column) {
+        return [
+          [
+            selectAlias,
+            (entity, value) =>
+              column.setEntityValue(
+                entity,
+                driver.prepareHydratedValue(value ?? null, column),
+              ),
+          ],
+        ];
+      }
+
+      const aggregate = findRelationAggregate(metadata, field.name);
+      if (aggregate) {
+        const property: string = getRelationAggregateProperty(...aggregate);
+        // Drivers may return counts as strings (e.g. Postgres bigint)
+        return [
+          [
+            selectAlias,
+            (entity, value) => {
+              entity[property as keyof ObjectLiteral] =
+                aggregate[1] === RelationAggregate.COUNT
+                  ? Number(value ?? 0)
+                  : Number(value) === 1;
+            },
+          ],
+        ];
+      }
+
+      return [];
+    });
+
+  if (setters.length) {
+    const getRowKey = (values: unknown[]): string =>
+      JSON.stringify(values.map(String));
+    const rowsById: Map<string, ObjectLiteral> = new Map(
+      raw.map((row) => [
+        getRowKey(
+          metadata.primaryColumns.map(
+            (column) =>
+              row[
+                DriverUtils.buildAlias(
+                  driver,
+                  undefined,
+                  alias,
+                  column.databaseName,
+                )
+              ],
+          ),
+        ),
+        row,
+      ]),
+    );
+
+    entities.forEach((entity) => {
+      const row = rowsById.get(
+        getRowKey(
+          metadata.primaryColumns.map((column) =>
+            column.getEntityValue(entity),
+          ),
+        ),
+      );
+      setters.forEach(([selectAlias, setValue]) =>
+        setValue(entity, row?.[selectAlias]),
+      );
+    });
+  }
+
+  tree.fields
+    .filter((field) => field.isRelation())
+    .forEach((relationTree) => {
+      const relation = metadata.findRelationWithPropertyPath(relationTree.name);
+      const relationAlias =
+        relation && findJoinAlias(qb, alias, relation.propertyPath);
+      if (!relation || !relationAlias) {
+        return; // Detached relations are hydrated by their own query
+      }
+
+      const related: ObjectLiteral[] = entities.flatMap((entity) => {
+        const value = relation.getEntityValue(entity);
+        return Array.isArray(value) ? value : value ? [value] : [];
+      });
+      hydrateComputedFields(
+        qb,
+        raw,
+        related,
+        relationTree,
+        relationAlias,
+        relation.inverseEntityMetadata,
+      );
+    });
+}
+
+// To-many relation loaded in its own query when using 'query' relation load strategy
+interface DetachedRelation {
+  path: string[]; // To-one relation property names from loaded entity to relation owner
+  relation: RelationMetadata;
+  tree: QueryTree; // Relation subtree
+}
+
+/**
+ * Returns owner entity columns a to-many relation is linked by,
+ * and the columns referencing them (in related entity or junction table)
+ * @param relation to-many relation
+ * @returns [owner columns, linking columns]
+ */
+function getToManyLinkColumns(
+  relation: RelationMetadata,
+): [ColumnMetadata[], ColumnMetadata[]] {
+  let linkColumns: ColumnMetadata[];
+
+  if (relation.isOneToMany) {
+    linkColumns = relation.inverseRelation?.joinColumns ?? [];
+  } else if (relation.isOwning) {
+    linkColumns = relation.joinColumns;
+  } else {
+    linkColumns = relation.inverseRelation?.inverseJoinColumns ?? [];
+  }
+
+  return [
+    linkColumns.map((column) => column.referencedColumn as ColumnMetadata),
+    linkColumns,
+  ];
+}
+
+/**
+ * Joins the junction table of many-to-many relations to related entity, so related
+ * entities can be linked to their owners. Other to-many relations are linked directly
+ * @param qb query builder selecting related entity
+ * @param relation to-many relation
+ * @param relatedAlias related entity alias
+ * @returns alias where linking columns (see getToManyLinkColumns) are
+ */
+function joinToManyLink<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  relation: RelationMetadata,
+  relatedAlias: string,
+): string {
+  if (!relation.isManyToMany || !relation.junctionEntityMetadata) {
+    return relatedAlias;
+  }
+
+  const junctionAlias: string = relatedAlias + ALIAS_STRATEGY + 'junction';
+  // Junction columns referencing related entity
+  const junctionColumns: ColumnMetadata[] = relation.isOwning
+    ? relation.inverseJoinColumns
+    : (relation.inverseRelation?.joinColumns ?? []);
+
+  qb.innerJoin(
+    relation.junctionEntityMetadata.target,
+    junctionAlias,
+    junctionColumns
+      .map(
+        (column) =>
+          qb.escape(junctionAlias) +
+          '.' +
+          qb.escape(column.databaseName) +
+          ' = ' +
+          qb.escape(relatedAlias) +
+          '.' +
+          qb.escape((column.referencedColumn as ColumnMetadata).databaseName),
+      )
+      .join(' AND '),
+  );
+
+  return junctionAlias;
+}
+
+/**
+ * Returns a copy of the tree node including given columns as fields
+ * @param tree QueryTree
+ * @param columns columns to include
+ */
+function withColumnFields(
+  tree: QueryTree,
+  columns: ColumnMetadata[],
+): QueryTree {
+  const fields: QueryTree[] = [...tree.fields];
+
+  columns.forEach((column) => {
+    if (!fields.some((field) => field.name === column.propertyPath)) {
+      fields.push(new QueryTree(column.propertyPath));
+    }
+  });
+
+  return new QueryTree(tree.name, tree.clauses, fields);
+}
+
+/**
+ * Lists to-many relations of query tree, so they can be loaded in their own queries.
+ * They stay in the tree, so their filters and ordering still apply to their owners
+ * (see addDetachedRelationClauses), while to-one relations are kept joined, since they do not multiply rows
+ * @param tree QueryTree
+ * @param metadata Entity metadata
+ * @param path to-one relation property names from loaded entity to this node
+ * @returns tree including owner columns relations are linked by, and detached to-many relations
+ */
+function detachToManyRelations(
+  tree: QueryTree,
+  metadata: EntityMetadata,
+  path: string[] = [],
+): [QueryTree, DetachedRelation[]] {
+  const detachedRelations: DetachedRelation[] = [];
+  const fields: QueryTree[] = [];
+  const linkColumns: ColumnMetadata[] = [];
+
+  tree.fields.forEach((field) => {
+    const relation = field.isRelation()
+      ? metadata.findRelationWithPropertyPath(field.name)
+      : undefined;
+
+    if (!relation) {
+      fields.push(field);
+    } else if (relation.isOneToMany || relation.isManyToMany) {
+      fields.push(field);
+      detachedRelations.push({ path, relation, tree: field });
+      // Owner columns are needed to stitch related entities back
+      linkColumns.push(...getToManyLinkColumns(relation)[0]);
+    } else {
+      const [relationTree, relationDetached] = detachToManyRelations(
+        field,
+        relation.inverseEntityMetadata,
+        [...path, relation.propertyPath],
+      );
+      fields.push(relationTree);
+      detachedRelations.push(...relationDetached);
+    }
+  });
+
+  return [
+    withColumnFields(
+      new QueryTree(tree.name, tree.clauses, fields),
+      linkColumns,
+    ),
+    detachedRelations,
+  ];
+}
+
+/**
+ * Loads detached to-many relations of entities, one batched query per relation,
+ * and sets them into entities. Nested to-many relations are loaded recursively
+ * @param manager TypeORM EntityManager queries run with
+ * @param entities already loaded entities
+ * @param detachedRelations relations to load
+ * @param withDeleted whether soft deleted related entities are loaded
+ * @param operators filter operator registry
+ * @param execute runs queries through lifecycle hooks and logs
+ * @param operation repository operation relations are loaded for
+ */
+async function loadDetachedRelations(
+  manager: EntityManager,
+  entities: ObjectLiteral[],
+  detachedRelations: DetachedRelation[],
+  withDeleted: boolean,
+  operators: FilterOperatorRegistry,
+  execute: QueryExecutor,
+  operation: QueryOperation,
+): Promise<void> {
+  for (const { path, relation, tree } of detachedRelations) {
+    // Relation owners may be entities themselves or nested to-one relations
+    const owners: ObjectLiteral[] = entities
+      .map((entity) =>
+        path.reduce<ObjectLiteral | undefined>(
+          (owner, propertyName) => owner?.[propertyName] ?? undefined,
+          entity,
+        ),
+      )
+      .filter((owner): owner is ObjectLiteral => !!owner);
+
+    if (!owners.length) {
+      continue;
+    }
+
+    const [ownerColumns, linkColumns] = getToManyLinkColumns(relation);
+    const getOwnerKey = (values: unknown[]): string =>
+      JSON.stringify(values.map(String));
+    const ownerKeys: Map<string, unknown[]> = new Map(
+      owners.map((owner) => {
+        const values = ownerColumns.map((column) =>
+          column.getEntityValue(owner),
+        );
+        return [getOwnerKey(values), values];
+      }),
+    );
+
+    const relationMetadata = relation.inverseEntityMetadata;
+    const [relationTree, nestedDetached] = detachToManyRelations(
+      withColumnFields(tree, relationMetadata.primaryColumns),
+      relationMetadata,
+    );
+    const qb = generateQueryBuilder<ObjectLiteral>(
+      manager,
+      relationMetadata.target,
+      relationTree,
+      withDeleted ? 'include' : 'exclude',
+      operators,
+      true,
+    );
+
+    const linkAlias: string = joinToManyLink(qb, relation, qb.alias);
+
+    // We select owner keys of every row and filter by loaded owners
+    const linkExpressions: string[] = linkColumns.map(
+      (column) => qb.escape(linkAlias) + '.' + qb.escape(column.databaseName),
+    );
+    linkExpressions.forEach((expression, index) =>
+      qb.addSelect(expression, 'owner' + ALIAS_STRATEGY + index),
+    );
+    relationMetadata.primaryColumns.forEach((column, index) =>
+      qb.addSelect(
+        qb.escape(qb.alias) + '.' + qb.escape(column.databaseName),
+        'related' + ALIAS_STRATEGY + index,
+      ),
+    );
+
+    const ownerValues: unknown[][] = Array.from(ownerKeys.values());
+    if (linkExpressions.length === 1) {
+      const placeholder = getUniqueParameterName(
+        qb,
+        linkAlias + ALIAS_STRATEGY + 'owner',
+      );
+      qb.andWhere(linkExpressions[0] + ' IN (:...' + placeholder + ')', {
+        [`${placeholder}`]: ownerValues.map((values) => values[0]),
+      });
+    } else {
+      // Composite keys are matched one owner at a time
+      const ownerConditions: string[] = ownerValues.map(
+        (values) =>
+          '(' +
+          linkExpressions
+            .map((expression, index) => {
+              const placeholder = getUniqueParameterName(
+                qb,
+                linkAlias + ALIAS_STRATEGY + 'owner',
+              );
+              qb.setParameter(placeholder, values[index]);
+              return expression + ' = :' + placeholder;
+            })
+            .join(' AND ') +
+          ')',
+      );
+      qb.andWhere('(' + ownerConditions.join(' OR ') + ')');
+    }
+
+    const { entities: related, raw } = await execute(
+      qb,
+      {
+        operation,
+        metadata: relationMetadata,
+        query: relation.propertyPath + ' relation',
+      },
+      () => qb.getRawAndEntities(),
+      (result) => result.raw.length,
+    );
+    hydrateComputedFields(
+      qb,
+      raw,
+      related,
+      relationTree,
+      qb.alias,
+      relationMetadata,
+    );
+
+    // Stitch related entities back into their owners, keeping query ordering
+    const relatedById: Map<string, ObjectLiteral> = new Map(
+      related.map((entity) => [
+        getOwnerKey(
+          relationMetadata.primaryColumns.map((column) =>
+            column.getEntityValue(entity),
+          ),
+        ),
+        entity,
+      ]),
+    );
+    const relatedByOwner: Map<string, Set<ObjectLiteral>> = new Map();
+    raw.forEach((row) => {
+      const ownerKey = getOwnerKey(
+        linkColumns.map((_, index) => row['owner' + ALIAS_STRATEGY + index]),
+      );
+      const entity = relatedById.get(
+        getOwnerKey(
+          relationMetadata.primaryColumns.map(
+            (_, index) => row['related' + ALIAS_STRATEGY + index],
+          ),
+        ),
+      );
+
+      if (entity) {
+        if (!relatedByOwner.has(ownerKey)) {
+          relatedByOwner.set(ownerKey, new Set());
+        }
+        relatedByOwner.get(ownerKey)?.add(entity);
+      }
+    });
+
+    owners.forEach((owner) => {
+      const ownerKey = getOwnerKey(
+        ownerColumns.map((column) => column.getEntityValue(owner)),
+      );
+      relation.setEntityValue(owner, [...(relatedByOwner.get(ownerKey) ?? [])]);
+    });
+
+    await loadDetachedRelations(
+      manager,
+      related,
+      nestedDetached,
+      withDeleted,
+      operators,
+      execute,
+      operation,
+    );
+  }
+}
+
+// Cursor sort key, i.e. SQL expression rows are paginated by
+interface CursorKey {
+  path: string; // Field path from root entity, identifying the key in cursors
+  expression: string;
+  type: OrderType;
+  nullable: boolean; // Null values are sorted last
+}
+
+/**
+ * Function to list cursor sort keys following query tree ordering, plus primary key as tie-breaker
+ * Relation fields are aggregated per root entity (MIN when ascending, MAX when descending),
+ * so sorting by to-many relation fields (e.g. articles.id) paginates root entities consistently
+ * @param qb query builder
+ * @param tree QueryTree
+ * @param alias Entity alias
+ * @param metadata Entity metadata
+ */
+function getCursorKeys<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  tree: QueryTree,
+  alias: string,
+  metadata: EntityMetadata,
+): CursorKey[] {
+  const keys: CursorKey[] = [];
+
+  const collectKeys = (
+    node: QueryTree,
+    nodeAlias: string,
+    nodeMetadata: EntityMetadata,
+    prefix: string,
+  ): void => {
+    node.clauses.ordering?.forEach(({ field, type }) => {
+      const [columnPath, jsonKeys] = splitJsonPath(field);
+      const column = findColumnByPath(nodeMetadata, columnPath);
+      if (column) {
+        const sqlColumn = buildColumnExpression(qb, nodeAlias, column);
+        const sqlField = jsonKeys.length
+          ? buildJsonValueExpression(qb, sqlColumn, column, jsonKeys)
+          : sqlColumn;
+        keys.push({
+          path: prefix + field,
+          expression:
+            (type === OrderType.DESC ? 'MAX(' : 'MIN(') + sqlField + ')',
+          type,
+          nullable: true,
+        });
+      } else if (findRelationAggregate(nodeMetadata, field)) {
+        // Relation pseudo-fields are already selected by their subquery
+        const sqlField = qb.expressionMap.selects.find(
+          (select) =>
+            select.aliasName === getComputedFieldAlias(nodeAlias, field),
+        )?.selection;
+        if (sqlField) {
+          keys.push({
+            path: prefix + field,
+            expression:
+              (type === OrderType.DESC ? 'MAX(' : 'MIN(') + sqlField + ')',
+            type,
+            nullable: false,
+          });
+        }
+      }
+    });
+
+    node.fields
+      .filter((field) => field.isRelation())
+      .forEach((relationTree) => {
+        const relation = nodeMetadata.findRelationWithPropertyPath(
+          relationTree.name,
+        );
+        if (relation) {
+          const relationAlias = findJoinAlias(
+            qb,
+            nodeAlias,
+            relation.propertyPath,
+          );
+          if (relationAlias) {
+            collectKeys(
+              relationTree,
+              relationAlias,
+              relation.inverseEntityMetadata,
+              prefix + relation.propertyPath + '.',
+            );
+          } else if (relation.isOneToMany || relation.isManyToMany) {
+            collectDetachedKeys(
+              relationTree,
+              relation.inverseEntityMetadata,
+              nodeAlias,
+              prefix,
+              relation.propertyPath,
+            );
+          }
+        }
+      });
+  };
+
+  // Detached relation orderings are already selected by their subqueries
+  // (see addDetachedRelationClauses), in the same order
+  const collectDetachedKeys = (
+    node: QueryTree,
+    nodeMetadata: EntityMetadata,
+    ownerAlias: string,
+    prefix: string,
+    path: string,
+  ): void => {
+    node.clauses.ordering?.forEach(({ field, type }) => {
+      const sqlField = qb.expressionMap.selects.find(
+        (select) =>
+          select.aliasName ===
+          getDetachedSortAlias(ownerAlias, path + '.' + field),
+      )?.selection;
+      if (sqlField) {
+        keys.push({
+          path: prefix + path + '.' + field,
+          expression:
+            (type === OrderType.DESC ? 'MAX(' : 'MIN(') + sqlField + ')',
+          type,
+          nullable: true,
+        });
+      }
+    });
+
+    node.fields
+      .filter((field) => field.isRelation())
+      .forEach((relationTree) => {
+        const relation = nodeMetadata.findRelationWithPropertyPath(
+          relationTree.name,
+        );
+        if (relation) {
+          collectDetachedKeys(
+            relationTree,
+            relation.inverseEntityMetadata,
+            ownerAlias,
+            prefix,
+            path + '.' + relation.propertyPath,
+          );
+        }
+      });
+  };
+
+  collectKeys(tree, alias, metadata, '');
+
+  const rank = buildSearchRankExpression(qb, tree, alias, metadata);
+  if (rank) {
+    keys.push({
+      path: '$search', // Search rank, named like pseudo-fields so no field clashes with it
+      expression: 'MAX(' + rank + ')',
+      type: OrderType.DESC,
+      nullable: false,
+    });
+  }
+
+  metadata.primaryColumns.forEach((column) => {
+    keys.push({
+      path: column.propertyPath,
+      expression: qb.escape(alias) + '.' + qb.escape(column.databaseName),
+      type: OrderType.ASC,
+      nullable: false,
+    });
+  });
+
+  return keys;
+}
+
+/**
+ * Checks cursor pagination options
+ * @param cursor page size and cursor to start from
+ * @throws RepositoryInvalidArgumentException if page size is not valid or both cursors are given
+ */
+function assertCursorOptions(cursor: CursorPaginationOptions): void {
+  const { take, after, before } = cursor;
+  if (!Number.isInteger(take) || take < 1) {
+    throw new RepositoryInvalidArgumentException(
+      `Cursor page size must be a positive integer, received '${take}'`,
+    );
+  }
+
+  if (after && before) {
+    throw new RepositoryInvalidArgumentException(
+      'Cursor pagination accepts either after or before, not both',
+    );
+  }
+}
+
+/**
+ * Short hash of cursor sort key paths and directions, so cursors identify
+ * the ordering they were generated for without exposing it
+ * @param keys cursor sort keys
+ */
+function hashCursorKeys(keys: CursorKey[]): string {
+  return createHash('sha256')
+    .update(keys.map(({ path, type }) => path + ' ' + type).join(','))
+    .digest('base64url')
+    .substring(0, 12);
+}
+
+/**
+ * Encodes cursor sort key values into an opaque cursor
+ * @param keys cursor sort keys
+ * @param values sort key values of a row
+ */
+function encodeCursor(keys: CursorKey[], values: unknown[]): string {
+  return Buffer.from(
+    JSON.stringify({ k: hashCursorKeys(keys), v: values }),
+  ).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor into its sort key values,
+ * checking it was generated for the same sort keys
+ * @param keys cursor sort keys
+ * @param cursor opaque cursor
+ */
+function decodeCursor(keys: CursorKey[], cursor: string): unknown[] {
+  let decoded: { k?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new RepositoryInvalidArgumentException(`Invalid cursor '${cursor}'`);
+  }
+
+  if (
+    !Array.isArray(decoded?.v) ||
+    decoded.v.length !== keys.length ||
+    decoded.k !== hashCursorKeys(keys)
+  ) {
+    throw new RepositoryInvalidArgumentException(
+      `Invalid cursor '${cursor}': it does not match query ordering`,
+    );
+  }
+
+  return decoded.v;
+}
+
+/**
+ * Function to add cursor sort keys ordering. Null values are sorted last
+ * (first when paginating backwards), regardless of database default behaviour
+ * @param qb query builder
+ * @param keys cursor sort keys
+ * @param backwards true if rows before cursor are requested
+ */
+function addCursorOrderBy<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  keys: CursorKey[],
+  backwards: boolean,
+): void {
+  keys.forEach(({ expression, type, nullable }) => {
+    if (nullable) {
+      qb.addOrderBy(
+        'CASE WHEN ' + expression + ' IS NULL THEN 1 ELSE 0 END',
+        backwards ? 'DESC' : 'ASC',
+      );
+    }
+    qb.addOrderBy(
+      expression,
+      (type === OrderType.ASC) !== backwards ? 'ASC' : 'DESC',
+    );
+  });
+}
+
+/**
+ * Function to add keyset condition, so only rows after (or before) cursor values are returned
+ * e.g. (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+ * @param qb query builder
+ * @param keys cursor sort keys
+ * @param values cursor sort key values
+ * @param backwards true if rows before cursor are requested
+ */
+function addCursorCondition<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  keys: CursorKey[],
+  values: unknown[],
+  backwards: boolean,
+): void {
+  const placeholders: string[] = values.map((value, index) => {
+    const placeholder = getUniqueParameterName(
+      qb,
+      'cursor' + ALIAS_STRATEGY + index,
+    );
+    qb.setParameter(placeholder, value);
+    return placeholder;
+  });
+
+  // Condition for key to be equal to cursor value
+  const equalCondition = (index: number): string =>
+    values[index] === null
+      ? keys[index].expression + ' IS NULL'
+      : keys[index].expression + ' = :' + placeholders[index];
+
+  // Condition for key to go after (or before) cursor value
+  const nextCondition = (index: number): string => {
+    const { expression, type } = keys[index];
+    const ascending: boolean = (type === OrderType.ASC) !== backwards;
+
+    if (values[index] === null) {
+      // Nulls go last, so only non null values go before them
+      return backwards ? expression + ' IS NOT NULL' : '1 = 0';
+    }
+
+    const condition: string =
+      expression + (ascending ? ' > :' : ' < :') + placeholders[index];
+    return backwards || !keys[index].nullable
+      ? condition
+      : '(' + condition + ' OR ' + expression + ' IS NULL)';
+  };
+
+  const conditions: string[] = keys.map(
+    (_, index) =>
+      '(' +
+      [
+        ...keys.slice(0, index).map((__, i) => equalCondition(i)),
+        nextCondition(index),
+      ].join(' AND ') +
+      ')',
+  );
+
+  qb.andHaving('(' + conditions.join(' OR ') + ')');
+}
+
+// Statements returning query plans by driver, which do not run the query
+const EXPLAIN_STATEMENTS: Record<string, string> = {
+  postgres: 'EXPLAIN',
+  'aurora-postgres': 'EXPLAIN',
+  cockroachdb: 'EXPLAIN',
+  mysql: 'EXPLAIN',
+  'aurora-mysql': 'EXPLAIN',
+  mariadb: 'EXPLAIN',
+  sqlite: 'EXPLAIN QUERY PLAN',
+  'better-sqlite3': 'EXPLAIN QUERY PLAN',
+  sqljs: 'EXPLAIN QUERY PLAN',
+};
+
+/**
+ * Lists the column paths a bulk update patch sets, following embeddeds
+ * e.g. { status, shipping: { city } } -> ['status', 'shipping.city']
+ * @param metadata Entity metadata
+ * @param patch fields to set
+ * @param prefix path of the embedded patch is nested in
+ * @throws RepositoryInvalidArgumentException if a field is not a column of entity (relations and virtual properties included)
+ */
+function getPatchColumnPaths(
+  metadata: EntityMetadata,
+  patch: ObjectLiteral,
+  prefix: string = '',
+): string[] {
+  return Object.entries(patch).flatMap(([field, value]) => {
+    const path: string = prefix + field;
+
+    if (getEmbeddedColumnPaths(metadata, path)) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new RepositoryInvalidArgumentException(
+          `Embedded '${path}' of ${metadata.tableName} entity must be set with an object of its fields`,
+        );
+      }
+      return getPatchColumnPaths(metadata, value, path + '.');
+    }
+
+    const column = findColumnByPath(metadata, path);
+    if (
+      !column ||
+      column.relationMetadata ||
+      column.isVirtualProperty ||
+      splitRelationPath(metadata, path)
+    ) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${path}' does not exist in ${metadata.tableName} entity`,
+      );
+    }
+    return [path];
+  });
+}
+
+// Metric names become SQL aliases, which drivers do not escape, so just plain ones are accepted
+const METRIC_NAME_REGEX: RegExp = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Drivers able to lock just some tables of a query (FOR UPDATE OF ...)
+const LOCK_TABLES_DRIVERS: string[] = [
+  'postgres',
+  'aurora-postgres',
+  'cockroachdb',
+];
+
+/**
+ * Adds find options pessimistic lock to query, if any
+ * Where driver allows it, just found entity rows are locked, since
+ * Postgres cannot lock the nullable side of outer joins
+ * @param qb query builder
+ * @param findOptions DynamicRepository find options
+ */
+function addLock<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  findOptions?: CommonFindOptions,
+): void {
+  if (!findOptions?.lock) {
+    return;
+  }
+
+  qb.setLock(
+    findOptions.lock.mode,
+    undefined,
+    LOCK_TABLES_DRIVERS.includes(qb.connection.options.type)
+      ? [qb.escape(qb.alias)]
+      : undefined,
+  );
+}
+
+/**
+ * DynamicRepository configuration
+ */
+export interface DynamicRepositoryOptions {
+  /**
+   * Exposure policies by entity, declaring which fields and relations can be selected,
+   * filtered and sorted. They take precedence over @ExposurePolicy decorated ones
+   */
+  policies?: ExposurePolicyRegistry;
+  /**
+   * Default query limits, checked before any SQL is generated.
+   * CommonFindOptions limits override them
+   */
+  limits?: QueryLimits;
+  /**
+   * Custom filter operators by name, usable in filters along with FilterOperator ones
+   * e.g. new Map([['withinRadius', { build: ..., validate: ... }]])
+   */
+  operators?: FilterOperatorRegistry;
+  /**
+   * Receives query trees, SQL queries and results. Console is used if not provided
+   * and debug flag is set
+   */
+  logger?: RepositoryLogger;
+  /**
+   * Lifecycle hooks called when queries are built and run
+   */
+  hooks?: RepositoryHooks;
+}
+
+/**
+ * DYNAMIC REPOSITORY
+ * This class helps to resolve any query based on a query tree
+ * It can find any type of entity, join every requested relation and select asked attributes.
+ *
+ * FEATURES:
+ * - Finds any given entity including all of its relations recursively by default
+ * - If selections (attributes) are specified, only those will be returned
+ * - If no selections (attributes) specified, all are selected by default
+ * - It can receive all sorts of filters and options, regardless at what level of entity or relation
+ * - It automatically handles recursive or cyclical relation dependencies
+ *
+ */
+export class DynamicRepository implements CommonRepository {
+  private operators: FilterOperatorRegistry; // Built-in and custom filter operators
+  private manager: EntityManager; // Manager queries run with, data source one by default
+  private readonly logger?: RepositoryLogger;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly debug: boolean,
+    private readonly options: DynamicRepositoryOptions = {},
+  ) {
+    this.operators = createOperatorRegistry(options.operators);
+    this.manager = dataSource.manager;
+    this.logger = options.logger ?? (debug ? CONSOLE_LOGGER : undefined);
+  }
+
+  /**
+   * Returns a repository running every query with given manager, e.g. to take part
+   * in a transaction (dataSource.transaction(manager => ...)) or to use a specific
+   * query runner (queryRunner.manager), such as a read replica one.
+   * Configuration is shared with this repository, while operators registered so far are copied,
+   * so operators registered later on either repository do not reach the other one
+   * @param manager TypeORM EntityManager
+   */
+  public withManager(manager: EntityManager): DynamicRepository {
+    const repository = new DynamicRepository(
+      manager.connection,
+      this.debug,
+      this.options,
+    );
+    repository.operators = new Map(this.operators);
+    repository.manager = manager;
+    return repository;
+  }
+
+  /**
+   * Registers a custom filter operator, usable in filters from now on
+   * @param name operator name (e.g. 'withinRadius')
+   * @param definition operator SQL builder and value validator
+   * @throws RepositoryInvalidArgumentException if name is a built-in operator
+   */
+  public registerOperator(
+    name: string,
+    definition: FilterOperatorDefinition,
+  ): void {
+    assertCustomOperatorName(name);
+    this.operators.set(name, definition);
+  }
+
+  /**
+   * Returns what query trees need to be built with repository configuration
+   * @param findOptions DynamicRepository find options, whose limits override repository ones
+   */
+  private getTreeContext(findOptions?: CommonFindOptions): QueryTreeContext {
+    return {
+      dataSource: this.dataSource,
+      policies: this.options.policies,
+      operators: this.operators,
+      limits: this.getLimits(findOptions),
+    };
+  }
+
+  /**
+   * Builds the query tree of an operation, letting beforeBuild hook modify it
+   * @param context operation being built
+   * @param entityClass Entity to find (e.g. 'Order')
+   * @param queryOptions Selections, filters, ordering... or a prebuilt query tree
+   * @param findOptions DynamicRepository find options
+   */
+  private async buildTree<T extends ObjectLiteral>(
+    context: QueryContext,
+    entityClass: FindParams<T>[0],
+    queryOptions?: CommonQueryOptions<T> | QueryTree,
+    findOptions?: CommonFindOptions,
+  ): Promise<QueryTree> {
+    // Prebuilt trees are read again, so they are validated against repository
+    // configuration and hooks cannot modify them
+    const tree: QueryTree =
+      queryOptions instanceof QueryTree
+        ? QueryTree.fromObject(
+            this.getTreeContext(findOptions),
+            entityClass,
+            queryOptions.toObject(),
+          )
+        : QueryTree.createTree(
+            this.getTreeContext(findOptions),
+            entityClass,
+            queryOptions,
+            findOptions,
+          );
+    const query: QueryTree =
+      (await this.options.hooks?.beforeBuild?.(tree, context)) ?? tree;
+
+    this.logger?.debug(`${context.operation} query tree`, {
+      tree: query.toObject(),
+    });
+
+    return query;
+  }
+
+  /**
+   * Runs a query through lifecycle hooks, logging its SQL
+   */
+  private readonly executeQuery: QueryExecutor = async (
+    qb,
+    context,
+    run,
+    getRowCount = countResultRows,
+  ) => {
+    const hooks: RepositoryHooks | undefined = this.options.hooks;
+    await hooks?.beforeExecute?.(qb, context);
+
+    const [sql, params] = qb.getQueryAndParameters();
+    this.logger?.debug(`${context.operation} ${context.query} SQL query`, {
+      sql,
+      parameters: qb.getParameters(),
+      ...(qb instanceof SelectQueryBuilder
+        ? { joins: getJoinAliasPaths(qb) }
+        : {}),
+    });
+
+    const start: number = Date.now();
+    let result;
+    try {
+      result = await run();
+    } catch (error) {
+      await hooks?.afterExecute?.({
+        ...context,
+        sql,
+        params,
+        durationMs: Date.now() - start,
+        rowCount: 0,
+        error,
+      });
+      throw error;
+    }
+
+    await hooks?.afterExecute?.({
+      ...context,
+      sql,
+      params,
+      durationMs: Date.now() - start,
+      rowCount: getRowCount(result),
+    });
+
+    return result;
+  };
+
+  /**
+   * Returns query limits, merging repository defaults with find options ones
+   * @param findOptions DynamicRepository find options
+   */
+  private getLimits(findOptions?: CommonFindOptions): QueryLimits {
+    return { ...this.options.limits, ...findOptions?.limits };
+  }
+
+  /**
+   * Generates query builder for a query tree. When relations are loaded with 'query'
+   * strategy, to-many relations are detached from it to be loaded afterwards
+   * @param entityClass Entity to find (e.g. 'Order')
+   * @param query QueryTree
+   * @param findOptions DynamicRepository find options
+   * @returns query builder and detached relations
+   */
+  private createQueryBuilder<T extends ObjectLiteral>(
+    entityClass: ObjectType<T> | EntitySchema<T> | string,
+    query: QueryTree,
+    findOptions?: CommonFindOptions,
+  ): [SelectQueryBuilder<T>, DetachedRelation[]] {
+    const softDeleteMode = getSoftDeleteMode(findOptions);
+    let rootQuery: QueryTree = query;
+    let detachedRelations: DetachedRelation[] = [];
+
+    if (findOptions?.relationLoadStrategy === 'query') {
+      [rootQuery, detachedRelations] = detachToManyRelations(
+        query,
+        this.dataSource.getMetadata(entityClass),
+      );
+    }
+
+    const qb = generateQueryBuilder<T>(
+      this.manager,
+      entityClass,
+      rootQuery,
+      softDeleteMode,
+      this.operators,
+      findOptions?.relationLoadStrategy === 'query',
+    );
+
+    return [qb, detachedRelations];
+  }
+
+  /**
+   * Builds the condition bulk operations use to find affected rows: their primary keys
+   * must be found by a subquery filtering as find does, so filters at any relation level
+   * are validated and joined through the query tree
+   * @param qb bulk operation query builder (update, delete or soft delete), whose rows are affected
+   * @param entityClass Entity to update or delete (e.g. 'Order')
+   * @param where filters
+   * @param operation bulk operation, used in error messages and hooks
+   * @param bulkOptions whether soft deleted rows are affected too
+   * @returns SQL condition and its parameters
+   */
+  private async createWhereKeysCondition<T extends ObjectLiteral>(
+    qb: QueryBuilder<T>,
+    entityClass: ObjectType<T> | EntitySchema<T> | string,
+    where: FilterExpression[],
+    operation: QueryOperation,
+    bulkOptions?: BulkWhereOptions,
+  ): Promise<[string, ObjectLiteral]> {
+    if (!where?.length) {
+      throw new RepositoryInvalidArgumentException(
+        `${operation} needs at least one filter, it would affect every row otherwise`,
+      );
+    }
+
+    const metadata = this.dataSource.getMetadata(entityClass);
+    const context: QueryContext = { operation, metadata };
+
+    // Filtered fields are selected, so query tree validates and joins them
+    // Quantified filters are not, since their relations must not be joined
+    const selections: string[] = Array.from(
+      new Set([
+        ...metadata.primaryColumns.map((column) => column.propertyPath),
+        ...where
+          .flatMap(getFilterLeaves)
+          .filter(({ quantifier }) => !quantifier)
+          .map(({ field }) => field),
+      ]),
+    );
+
+    const query: QueryTree = await this.buildTree(context, entityClass, {
+      selections,
+      where,
+    });
+
+    assertQueryLimits(query, metadata, this.getLimits());
+
+    const keysQb = generateQueryBuilder<T>(
+      this.manager,
+      entityClass,
+      query,
+      getSoftDeleteMode(bulkOptions),
+      this.operators,
+    )
+      .select([])
+      .orderBy();
+    metadata.primaryColumns.forEach((column, index) =>
+      keysQb.addSelect(
+        keysQb.escape(keysQb.alias) + '.' + keysQb.escape(column.databaseName),
+        'key' + ALIAS_STRATEGY + index,
+      ),
+    );
+
+    // Affected rows are referenced as the bulk query builder does. UPDATE and DELETE
+    // statements do not declare their main alias, so their columns go unqualified, which
+    // resolves them to the affected table (keys derived table has none of them)
+    const affectedColumn = (column: ColumnMetadata): string =>
+      (qb.expressionMap.aliasNamePrefixingEnabled
+        ? qb.escape(qb.alias) + '.'
+        : '') + qb.escape(column.databaseName);
+
+    // Keys are wrapped in a derived table, since some drivers (e.g. MySQL)
+    // cannot read from the table being updated in a subquery
+    const keysAlias: string = keysQb.escape('keys');
+    const condition: string =
+      'EXISTS (SELECT 1 FROM (' +
+      keysQb.getQuery() +
+      ') ' +
+      keysAlias +
+      ' WHERE ' +
+      metadata.primaryColumns
+        .map(
+          (column, index) =>
+            keysAlias +
+            '.' +
+            keysQb.escape('key' + ALIAS_STRATEGY + index) +
+            ' = ' +
+            affectedColumn(column),
+        )
+        .join(' AND ') +
+      ')';
+
+    return [condition, keysQb.getParameters()];
+  }
+
+  /**
+   * Finds a page of instances of entity using keyset (cursor) pagination
+   * @param context operation being run
+   * @param qb query builder finding entities
+   * @param detachedRelations relations to load afterwards ('query' relation load strategy)
+   * @param query QueryTree
+   * @param findOptions DynamicRepository find options
+   * @param cursor page size and cursor to start from
+   * @returns page items and cursors to next and previous pages
+   */
+  private async findCursorPage<T extends ObjectLiteral>(
+    context: QueryContext,
+    qb: SelectQueryBuilder<T>,
+    detachedRelations: DetachedRelation[],
+    query: QueryTree,
+    findOptions: CommonFindOptions | undefined,
+    cursor: CursorPaginationOptions,
+  ): Promise<CursorPage<T>> {
+    const { take, after, before } = cursor;
+    const { metadata } = context;
+    const keys = getCursorKeys(qb, query, qb.alias, metadata);
+    const backwards = !!before;
+
+    // Firstly, we find the page of primary keys with their sort key values
+    const keysQb = qb.clone().select([]).orderBy();
+    // Just entities of the page are locked, since locks are not allowed along with GROUP BY
+    addLock(qb, findOptions);
+    keys.forEach(({ expression }, index) =>
+      keysQb.addSelect(expression, 'cursor' + ALIAS_STRATEGY + index),
+    );
+    addCursorOrderBy(keysQb, keys, backwards);
+    metadata.primaryColumns.forEach((column) =>
+      keysQb.addGroupBy(
+        qb.escape(qb.alias) + '.' + qb.escape(column.databaseName),
+      ),
+    );
+
+    const cursorValue = after ?? before;
+    if (cursorValue) {
+      addCursorCondition(
+        keysQb,
+        keys,
+        decodeCursor(keys, cursorValue),
+        backwards,
+      );
+    }
+
+    keysQb.limit(take + 1);
+    const rawRows: ObjectLiteral[] = await this.executeQuery(
+      keysQb,
+      { ...context, query: 'cursor keys' },
+      () => keysQb.getRawMany(),
+    );
+    const hasMore: boolean = rawRows.length > take;
+    const pageRows = rawRows.slice(0, take);
+    if (backwards) {
+      pageRows.reverse();
+    }
+
+    const rowValues: unknown[][] = pageRows.map((row) =>
+      keys.map((_, index) => row['cursor' + ALIAS_STRATEGY + index]),
+    );
+    const primaryKeyOffset = keys.length - metadata.primaryColumns.length;
+    const getIdKey = (idValues: unknown[]): string =>
+      JSON.stringify(idValues.map(String));
+
+    let items: T[] = [];
+    if (pageRows.length) {
+      // Then, we load the entities of the page, keeping page order
+      const ids = rowValues.map((values) =>
+        metadata.primaryColumns.reduce(
+          (id, column, index) => ({
+            ...id,
+            [column.propertyName]: values[primaryKeyOffset + index],
+          }),
+          {},
+        ),
+      );
+
+      qb.andWhereInIds(ids);
+
+      const { entities, raw } = await this.executeQuery(
+        qb,
+        { ...context, query: 'entities' },
+        () => qb.getRawAndEntities(),
+        (result) => result.entities.length,
+      );
+      hydrateComputedFields(qb, raw, entities, query, qb.alias, metadata);
+      const entitiesById = new Map<string, T>(
+        entities.map((entity) => [
+          getIdKey(
+            metadata.primaryColumns.map((column) =>
+              column.getEntityValue(entity),
+            ),
+          ),
+          entity,
+        ]),
+      );
+
+      await loadDetachedRelations(
+        this.manager,
+        entities,
+        detachedRelations,
+        getSoftDeleteMode(findOptions) !== 'exclude',
+        this.operators,
+        this.executeQuery,
+        context.operation,
+      );
+      pickJsonSelections(entities, query, metadata);
+
+      items = rowValues
+        .map((values) =>
+          entitiesById.get(getIdKey(values.slice(primaryKeyOffset))),
+        )
+        .filter((entity): entity is T => !!entity);
+    }
+
+    const hasNext: boolean = backwards ? true : hasMore;
+    const hasPrev: boolean = backwards ? hasMore : !!after;
+
+    return {
+      items,
+      nextCursor:
+        hasNext && rowValues.length
+          ? encodeCursor(keys, rowValues[rowValues.length - 1])
+          : null,
+      prevCursor:
+        hasPrev && rowValues.length ? encodeCursor(keys, rowValues[0]) : null,
+    };
+  }
+
+  /**
+   * Finds and counts multiple instances of entity
+   * @param entityClass Entity to find (e.g. 'Order')
+   * @param findOptions DynamicRepository find options, repo can work differently depending on them
+   * @param queryOptions Selections, filters, ordering... or a prebuilt query tree
+   * @param skip offset
+   * @param take page size
+   * @returns An array of T (a cursor page if cursor find option is set) and its total excluding pagination
+   */
+  public findAndCount<T extends ObjectLiteral>(
+    ...args: CursorFindParams<T> | CursorQueryTreeFindParams<T>
+  ): Promise<[CursorPage<T>, number]>;
+  public findAndCount<T extends ObjectLiteral>(
+    ...args: PaginatedFindParams<T> | PaginatedQueryTreeFindParams<T>
+  ): Promise<[T[], number]>;
+  public async findAndCount<T extends ObjectLiteral>(
+    ...args:
+      | PaginatedFindParams<T>
+      | PaginatedQueryTreeFindParams<T>
+      | CursorFindParams<T>
+      | CursorQueryTreeFindParams<T>
+  ): Promise<[T[], number] | [CursorPage<T>, number]> {
+    const [entityClass, queryOptions, findOptions] = args;
+    const [, , , skip, take] = args as PaginatedFindParams<T>;
+    const cursor = findOptions?.cursor;
+    const context: QueryContext = {
+      operation: 'findAndCount',
+      metadata: this.dataSource.getMetadata(entityClass),
+    };
+
+    if (!cursor && !skip && !take) {
+      // If there is no pagination, we can save one SQL query
+      // as we can count results on our side
+      const findResults = await this.find(
+        ...(args as PaginatedFindParams<T> | PaginatedQueryTreeFindParams<T>),
+      );
+      return [findResults, findResults.length];
+    }
+
+    if (cursor) {
+      assertCursorOptions(cursor);
+    }
+
+    const query: QueryTree = await this.buildTree(
+      context,
+      entityClass,
+      queryOptions,
+      findOptions,
+    );
+
+    const limits = this.getLimits(findOptions);
+    assertQueryLimits(query, context.metadata, limits);
+    assertTakeLimit(limits, cursor ? cursor.take : take);
+
+    const [qb, detachedRelations] = this.createQueryBuilder<T>(
+      entityClass,
+      query,
+      findOptions,
+    );
+
+    // Count query is not locked, since locks are not allowed along with aggregates
+    const countQb = qb.clone();
+    const count = () =>
+      this.executeQuery(
+        countQb,
+        { ...context, query: 'count' },
+        () => countQb.getCount(),
+        () => 1,
+      );
+
+    if (cursor) {
+      const page: CursorPage<T> = await this.findCursorPage(
+        context,
+        qb,
+        detachedRelations,
+        query,
+        findOptions,
+        cursor,
+      );
+
+      this.logger?.debug('findAndCount results', { result: page.items[0] });
+
+      return [page, await count()];
     }
 
-    const results: [T[], number] = await qb
-      .skip(skip)
-      .take(take)
-      .getManyAndCount();
+    addLock(qb, findOptions);
 
-    if (this.debug) {
-      console.log('findAndCount results:');
-      console.log(results[0]);
+    // Without to-many joins rows are not multiplied, so plain limit & offset can be used
+    if (findOptions?.relationLoadStrategy === 'query') {
+      qb.offset(skip).limit(take);
+    } else {
+      qb.skip(skip).take(take);
     }
 
+    const { entities, raw } = await this.executeQuery(
+      qb,
+      { ...context, query: 'entities' },
+      () => qb.getRawAndEntities(),
+      (result) => result.entities.length,
+    );
+    hydrateComputedFields(
+      qb,
+      raw,
+      entities,
+      query,
+      qb.alias,
+      this.dataSource.getMetadata(entityClass),
+    );
+    const results: [T[], number] = [entities, await count()];
+    await loadDetachedRelations(
+      this.manager,
+      results[0],
+      detachedRelations,
+      getSoftDeleteMode(findOptions) !== 'exclude',
+      this.operators,
+      this.executeQuery,
+      context.operation,
+    );
+    pickJsonSelections(
+      results[0],
+      query,
+      this.dataSource.getMetadata(entityClass),
+    );
+
+    this.logger?.debug('findAndCount results', { result: results[0] });
+
     return results;
   }
 
@@ -348,43 +2938,108 @@ export class DynamicRepository implements CommonRepository {
    * Finds multiple instances of entity
    * @param entityClass Entity to find (e.g. 'Order')
    * @param findOptions DynamicRepository find options, repo can work differently depending on them
-   * @param queryOptions Selections, filters, ordering...
+   * @param queryOptions Selections, filters, ordering... or a prebuilt query tree
    * @param skip offset
    * @param take page size
-   * @returns An array of T
+   * @returns An array of T, or a cursor page if cursor find option is set
    */
+  public find<T extends ObjectLiteral>(
+    ...args: CursorFindParams<T> | CursorQueryTreeFindParams<T>
+  ): Promise<CursorPage<T>>;
+  public find<T extends ObjectLiteral>(
+    ...args: PaginatedFindParams<T> | PaginatedQueryTreeFindParams<T>
+  ): Promise<T[]>;
   public async find<T extends ObjectLiteral>(
-    ...args: PaginatedFindParams<T>
-  ): Promise<T[]> {
-    const [entityClass, queryOptions, findOptions, skip, take] = args;
+    ...args:
+      | PaginatedFindParams<T>
+      | PaginatedQueryTreeFindParams<T>
+      | CursorFindParams<T>
+      | CursorQueryTreeFindParams<T>
+  ): Promise<T[] | CursorPage<T>> {
+    const [entityClass, queryOptions, findOptions] = args;
+    const [, , , skip, take] = args as PaginatedFindParams<T>;
+    const cursor = findOptions?.cursor;
+    const context: QueryContext = {
+      operation: 'find',
+      metadata: this.dataSource.getMetadata(entityClass),
+    };
 
-    const query: QueryTree = QueryTree.createTree(
-      this.dataSource,
+    if (cursor) {
+      assertCursorOptions(cursor);
+    }
+
+    const query: QueryTree = await this.buildTree(
+      context,
       entityClass,
       queryOptions,
       findOptions,
     );
 
-    if (this.debug) {
-      console.log('find query tree:');
-      console.log(JSON.stringify(query.toObject(), null, 2));
-    }
+    const limits = this.getLimits(findOptions);
+    assertQueryLimits(query, context.metadata, limits);
+    assertTakeLimit(limits, cursor ? cursor.take : take);
+
+    const [qb, detachedRelations] = this.createQueryBuilder<T>(
+      entityClass,
+      query,
+      findOptions,
+    );
+
+    if (cursor) {
+      const page: CursorPage<T> = await this.findCursorPage(
+        context,
+        qb,
+        detachedRelations,
+        query,
+        findOptions,
+        cursor,
+      );
 
-    const qb = generateQueryBuilder<T>(this.dataSource, entityClass, query);
+      this.logger?.debug('find results', { result: page.items[0] });
 
-    if (this.debug) {
-      console.log('find SQL query:');
-      console.log(qb.getSql());
-      console.log(qb.getParameters());
+      return page;
     }
 
-    const results: T[] = await qb.skip(skip).take(take).getMany();
+    addLock(qb, findOptions);
 
-    if (this.debug) {
-      console.log('find results:');
-      console.log(results[0]);
+    // Without to-many joins rows are not multiplied, so plain limit & offset can be used
+    if (findOptions?.relationLoadStrategy === 'query') {
+      qb.offset(skip).limit(take);
+    } else {
+      qb.skip(skip).take(take);
     }
 
+    const { entities: results, raw } = await this.executeQuery(
+      qb,
+      { ...context, query: 'entities' },
+      () => qb.getRawAndEntities(),
+      (result) => result.entities.length,
+    );
+    hydrateComputedFields(
+      qb,
+      raw,
+      results,
+      query,
+      qb.alias,
+      this.dataSource.getMetadata(entityClass),
+    );
+    await loadDetachedRelations(
+      this.manager,
+      results,
+      detachedRelations,
+      getSoftDeleteMode(findOptions) !== 'exclude',
+      this.operators,
+      this.executeQuery,
+      context.operation,
+    );
+    pickJsonSelections(
+      results,
+      query,
+      this.dataSource.getMetadata(entityClass),
+    );
+
+    this.logger?.debug('find results', { result: results[0] });
+
     return results;
   }
 
@@ -392,36 +3047,410 @@ export class DynamicRepository implements CommonRepository {
    * Finds one instance of an entity
    * @param entityClass Entity to find (e.g. 'Order')
    * @param findOptions DynamicRepository find options, repo can work differently depending on them
-   * @param queryOptions Selections, filters, ordering...
+   * @param queryOptions Selections, filters, ordering... or a prebuilt query tree
    * @returns entity
    */
   public async findOne<T extends ObjectLiteral>(
-    ...args: FindParams<T>
+    ...args: FindParams<T> | QueryTreeFindParams<T>
   ): Promise<T | null> {
-    const [entityClass] = args;
+    const [entityClass, queryOptions, findOptions] = args;
+    const context: QueryContext = {
+      operation: 'findOne',
+      metadata: this.dataSource.getMetadata(entityClass),
+    };
+
+    const query: QueryTree = await this.buildTree(
+      context,
+      entityClass,
+      queryOptions,
+      findOptions,
+    );
+
+    const limits = this.getLimits(findOptions);
+    assertQueryLimits(query, context.metadata, limits);
+
+    const [qb, detachedRelations] = this.createQueryBuilder<T>(
+      entityClass,
+      query,
+      findOptions,
+    );
+    addLock(qb, findOptions);
+
+    const { entities, raw } = await this.executeQuery(
+      qb,
+      { ...context, query: 'entities' },
+      () => qb.getRawAndEntities(),
+      (result) => result.entities.length,
+    );
+    const result: T | null = entities[0] ?? null;
+    if (result) {
+      hydrateComputedFields(
+        qb,
+        raw,
+        [result],
+        query,
+        qb.alias,
+        this.dataSource.getMetadata(entityClass),
+      );
+      await loadDetachedRelations(
+        this.manager,
+        [result],
+        detachedRelations,
+        getSoftDeleteMode(findOptions) !== 'exclude',
+        this.operators,
+        this.executeQuery,
+        context.operation,
+      );
+      pickJsonSelections(
+        [result],
+        query,
+        this.dataSource.getMetadata(entityClass),
+      );
+    }
+
+    this.logger?.debug('findOne result', { result });
+
+    return result;
+  }
+
+  /**
+   * Aggregates instances of entity, grouping them by any field at any relation level
+   * @param entityClass Entity to aggregate (e.g. 'Order')
+   * @param aggregateOptions Filters, group by fields and metrics
+   * @param findOptions DynamicRepository find options, repo can work differently depending on them
+   * @returns raw rows, with group by fields under their paths and metrics under their names
+   */
+  public async aggregate<T extends ObjectLiteral>(
+    ...args: AggregateParams<T>
+  ): Promise<Record<string, unknown>[]> {
+    const [entityClass, aggregateOptions, findOptions] = args;
+    const { where, groupBy = [], metrics } = aggregateOptions;
+    const metadata = this.dataSource.getMetadata(entityClass);
+    const context: QueryContext = { operation: 'aggregate', metadata };
+
+    if (!metrics?.length) {
+      throw new RepositoryInvalidArgumentException(
+        'Aggregation needs at least one metric',
+      );
+    }
+
+    metrics.forEach(({ fn, field, as }, index) => {
+      if (!as || metrics.findIndex((metric) => metric.as === as) !== index) {
+        throw new RepositoryInvalidArgumentException(
+          `Metric names must be unique and non empty, received '${as}'`,
+        );
+      }
+      if (!METRIC_NAME_REGEX.test(as)) {
+        throw new RepositoryInvalidArgumentException(
+          `Metric names may only contain letters, digits and '_', not starting with a digit, received '${as}'`,
+        );
+      }
+      if (field === '*' && fn !== AggregateFunction.COUNT) {
+        throw new RepositoryInvalidArgumentException(
+          `Metric '${as}' can only use '*' with ${AggregateFunction.COUNT}`,
+        );
+      }
+    });
+
+    // Every field involved is selected, so query tree validates and joins them
+    // Quantified filters are not, since their relations must not be joined
+    const paths: string[] = [
+      ...groupBy,
+      ...metrics.map(({ field }) => field).filter((field) => field !== '*'),
+      ...(where ?? [])
+        .flatMap(getFilterLeaves)
+        .filter(({ quantifier }) => !quantifier)
+        .map(({ field }) => field),
+    ];
+    const selections: string[] = paths.length
+      ? Array.from(new Set(paths))
+      : metadata.primaryColumns.map((column) => column.propertyPath);
+
+    const query: QueryTree = await this.buildTree(
+      context,
+      entityClass,
+      { selections, where } as CommonQueryOptions<T>,
+      findOptions,
+    );
+
+    const limits = this.getLimits(findOptions);
+    assertQueryLimits(query, metadata, limits);
+
+    const qb = generateQueryBuilder<T>(
+      this.manager,
+      entityClass,
+      query,
+      getSoftDeleteMode(findOptions),
+      this.operators,
+    );
+    qb.select([]);
+
+    // Resolves SQL column of a field path, which must be a regular column,
+    // a virtual field or a path inside a JSON column
+    const getSqlField = (path: string): string => {
+      const [columnPath, keys] = splitJsonPath(path);
+      const column = findColumnByPath(metadata, columnPath);
+      if (
+        !column ||
+        column.relationMetadata ||
+        (column.isVirtualProperty && keys.length)
+      ) {
+        throw new RepositoryInvalidArgumentException(
+          `Field '${path}' cannot be aggregated or grouped by in ${metadata.tableName} entity`,
+        );
+      }
+
+      const [fieldAlias] = resolveFieldAlias(qb, qb.alias, columnPath);
+      const sqlColumn: string = buildColumnExpression(qb, fieldAlias, column);
+      return keys.length
+        ? buildJsonValueExpression(qb, sqlColumn, column, keys)
+        : sqlColumn;
+    };
+
+    groupBy.forEach((path) => {
+      const sqlField = getSqlField(path);
+      qb.addSelect(sqlField, path);
+      qb.addGroupBy(sqlField);
+    });
+
+    metrics.forEach(({ fn, field, as }) => {
+      const sqlField = field === '*' ? '*' : getSqlField(field);
+
+      switch (fn) {
+        case AggregateFunction.COUNT:
+          qb.addSelect('COUNT(' + sqlField + ')', as);
+          break;
+        case AggregateFunction.COUNT_DISTINCT:
+          qb.addSelect('COUNT(DISTINCT ' + sqlField + ')', as);
+          break;
+        case AggregateFunction.SUM:
+          qb.addSelect('SUM(' + sqlField + ')', as);
+          break;
+        case AggregateFunction.AVG:
+          qb.addSelect('AVG(' + sqlField + ')', as);
+          break;
+        case AggregateFunction.MIN:
+          qb.addSelect('MIN(' + sqlField + ')', as);
+          break;
+        case AggregateFunction.MAX:
+          qb.addSelect('MAX(' + sqlField + ')', as);
+          break;
+        default:
+          throw new RepositoryInvalidArgumentException(
+            `Unknown aggregate function '${fn}' in metric '${as}'`,
+          );
+      }
+    });
+
+    // Ordering from query tree is not grouped, so it does not apply here
+    qb.orderBy();
+
+    const results: Record<string, unknown>[] = await this.executeQuery(
+      qb,
+      { ...context, query: 'metrics' },
+      () => qb.getRawMany(),
+    );
+
+    this.logger?.debug('aggregate results', { result: results[0] });
+
+    return results;
+  }
+
+  /**
+   * Explains how find would query entities, without running the query: normalized
+   * query tree, generated SQL and joined relations. Limits are checked as find does
+   * @param entityClass Entity to find (e.g. 'Order')
+   * @param queryOptions Selections, filters, ordering...
+   * @param findOptions DynamicRepository find options
+   * @param skip offset
+   * @param take page size
+   * @param explainOptions analyze option returns driver query plan too
+   * @throws RepositoryInvalidArgumentException if driver has no query plans and analyze is set
+   */
+  public async explain<T extends ObjectLiteral>(
+    ...args: ExplainParams<T>
+  ): Promise<QueryExplanation> {
+    const [entityClass, queryOptions, findOptions, skip, take, explainOptions] =
+      args;
+    const context: QueryContext = {
+      operation: 'explain',
+      metadata: this.dataSource.getMetadata(entityClass),
+    };
+
+    const query: QueryTree = await this.buildTree(
+      context,
+      entityClass,
+      queryOptions,
+      findOptions,
+    );
+
+    const limits = this.getLimits(findOptions);
+    assertQueryLimits(query, context.metadata, limits);
+    assertTakeLimit(limits, take);
 
-    const query: QueryTree = QueryTree.createTree(this.dataSource, ...args);
+    const [qb] = this.createQueryBuilder<T>(entityClass, query, findOptions);
+    addLock(qb, findOptions);
+
+    if (findOptions?.relationLoadStrategy === 'query') {
+      qb.offset(skip).limit(take);
+    } else {
+      qb.skip(skip).take(take);
+    }
+
+    // Query is explained as it would be run, so hooks can modify it
+    await this.options.hooks?.beforeExecute?.(qb, {
+      ...context,
+      query: 'entities',
+    });
+
+    const [sql, parameters] = qb.getQueryAndParameters();
+    const explanation: QueryExplanation = {
+      tree: query.toObject(),
+      sql,
+      parameters,
+      joins: getQueryJoins(qb),
+    };
+
+    if (explainOptions?.analyze) {
+      const driver: string = this.dataSource.options.type;
+      const statement: string | undefined = EXPLAIN_STATEMENTS[driver];
+      if (!statement) {
+        throw new RepositoryInvalidArgumentException(
+          `Query plans are not supported by ${driver} driver`,
+        );
+      }
 
-    if (this.debug) {
-      console.log('findOne query tree:');
-      console.log(JSON.stringify(query.toObject(), null, 2));
+      explanation.plan = await this.manager.query(
+        statement + ' ' + sql,
+        parameters,
+      );
     }
 
-    const qb = generateQueryBuilder<T>(this.dataSource, entityClass, query);
+    return explanation;
+  }
+
+  /**
+   * Updates every instance of entity matching filters
+   * @param entityClass Entity to update (e.g. 'Order')
+   * @param where filters, at any relation level
+   * @param patch entity columns to set
+   * @param bulkOptions whether soft deleted rows are updated too
+   * @returns number of updated rows
+   */
+  public async updateWhere<T extends ObjectLiteral>(
+    ...args: UpdateWhereParams<T>
+  ): Promise<number> {
+    const [entityClass, where, patch, bulkOptions] = args;
+    const metadata = this.dataSource.getMetadata(entityClass);
+    const context: QueryContext = { operation: 'updateWhere', metadata };
 
-    if (this.debug) {
-      console.log('findOne SQL query:');
-      console.log(qb.getSql());
-      console.log(qb.getParameters());
+    // Only columns can be set, embedded ones included
+    if (!getPatchColumnPaths(metadata, patch ?? {}).length) {
+      throw new RepositoryInvalidArgumentException(
+        'updateWhere needs at least one field to update',
+      );
     }
 
-    const result: T | null = await qb.getOne();
+    const qb = this.manager.createQueryBuilder().update(entityClass).set(patch);
+    const [condition, parameters] = await this.createWhereKeysCondition(
+      qb,
+      entityClass,
+      where,
+      'updateWhere',
+      bulkOptions,
+    );
+    qb.where(condition, parameters);
+
+    const { affected } = await this.executeQuery(
+      qb,
+      { ...context, query: 'update' },
+      () => qb.execute(),
+      (result) => result.affected ?? 0,
+    );
+
+    this.logger?.debug('updateWhere affected rows', { affected });
+
+    return affected ?? 0;
+  }
+
+  /**
+   * Deletes every instance of entity matching filters
+   * @param entityClass Entity to delete (e.g. 'Order')
+   * @param where filters, at any relation level
+   * @param bulkOptions whether soft deleted rows are deleted too
+   * @returns number of deleted rows
+   */
+  public async deleteWhere<T extends ObjectLiteral>(
+    ...args: DeleteWhereParams<T>
+  ): Promise<number> {
+    const [entityClass, where, bulkOptions] = args;
+    const context: QueryContext = {
+      operation: 'deleteWhere',
+      metadata: this.dataSource.getMetadata(entityClass),
+    };
+
+    const qb = this.manager.createQueryBuilder().delete().from(entityClass);
+    const [condition, parameters] = await this.createWhereKeysCondition(
+      qb,
+      entityClass,
+      where,
+      'deleteWhere',
+      bulkOptions,
+    );
+    qb.where(condition, parameters);
+
+    const { affected } = await this.executeQuery(
+      qb,
+      { ...context, query: 'delete' },
+      () => qb.execute(),
+      (result) => result.affected ?? 0,
+    );
+
+    this.logger?.debug('deleteWhere affected rows', { affected });
+
+    return affected ?? 0;
+  }
+
+  /**
+   * Soft deletes every instance of entity matching filters,
+   * which needs a delete date column (@DeleteDateColumn)
+   * @param entityClass Entity to soft delete (e.g. 'Order')
+   * @param where filters, at any relation level
+   * @param bulkOptions whether rows are found through soft deleted relations
+   * @returns number of soft deleted rows
+   */
+  public async softDeleteWhere<T extends ObjectLiteral>(
+    ...args: DeleteWhereParams<T>
+  ): Promise<number> {
+    const [entityClass, where, bulkOptions] = args;
+    const metadata = this.dataSource.getMetadata(entityClass);
+    const context: QueryContext = { operation: 'softDeleteWhere', metadata };
 
-    if (this.debug) {
-      console.log('findOne result:');
-      console.log(result);
+    if (!metadata.deleteDateColumn) {
+      throw new RepositoryInvalidArgumentException(
+        `Entity ${metadata.tableName} cannot be soft deleted, it has no delete date column`,
+      );
     }
 
-    return result;
+    const qb = this.manager.createQueryBuilder().softDelete().from(entityClass);
+    const [condition, parameters] = await this.createWhereKeysCondition(
+      qb,
+      entityClass,
+      where,
+      'softDeleteWhere',
+      bulkOptions,
+    );
+    qb.where(condition, parameters);
+
+    const { affected } = await this.executeQuery(
+      qb,
+      { ...context, query: 'soft delete' },
+      () => qb.execute(),
+      (result) => result.affected ?? 0,
+    );
+
+    this.logger?.debug('softDeleteWhere affected rows', { affected });
+
+    return affected ?? 0;
   }
 }
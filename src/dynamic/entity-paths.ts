@@ -0,0 +1,245 @@
+import { EntityMetadata } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { RelationIdMetadata } from 'typeorm/metadata/RelationIdMetadata';
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { RelationAggregate } from '../query/query-options.interface';
+import { findVirtualFieldColumn } from './virtual-fields';
+
+/**
+ * Splits a dotted path at its first relation, telling relations apart from
+ * embedded column paths (e.g. 'address.city'). Relations declared inside
+ * embeddeds are found by their whole property path (e.g. 'address.country')
+ * e.g. 'articles.replacement.price' -> [articles, 'replacement.price']
+ * @param metadata entity metadata where path starts
+ * @param path field path
+ * @returns relation and path relative to related entity, or undefined if path does not go through a relation
+ */
+export function splitRelationPath(
+  metadata: EntityMetadata,
+  path: string,
+): [RelationMetadata, string] | undefined {
+  const join = path.split('.');
+
+  for (let index = 1; index < join.length; index++) {
+    const relation = metadata.findRelationWithPropertyPath(
+      join.slice(0, index).join('.'),
+    );
+    if (relation) {
+      return [relation, join.slice(index).join('.')];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Splits a dotted path into every relation it goes through and the field it ends with
+ * e.g. 'articles.replacement.price' -> [[articles, replacement], 'price']
+ * e.g. 'customer.address.city' -> [[customer], 'address.city']
+ * @param metadata entity metadata where path starts
+ * @param path field path
+ * @returns relations and field path relative to last related entity
+ */
+export function splitEntityPath(
+  metadata: EntityMetadata,
+  path: string,
+): [RelationMetadata[], string] {
+  const relations: RelationMetadata[] = [];
+  let entityMetadata: EntityMetadata = metadata;
+  let field: string = path;
+
+  let split = splitRelationPath(entityMetadata, field);
+  while (split) {
+    const [relation, relationPath] = split;
+    relations.push(relation);
+    entityMetadata = relation.inverseEntityMetadata;
+    field = relationPath;
+    split = splitRelationPath(entityMetadata, field);
+  }
+
+  return [relations, field];
+}
+
+const RELATION_AGGREGATES: string[] = Object.values(RelationAggregate);
+
+/**
+ * Checks if a name is a relation pseudo-field (e.g. '$count')
+ * @param name field name
+ */
+export function isRelationAggregate(name: string): name is RelationAggregate {
+  return RELATION_AGGREGATES.includes(name);
+}
+
+/**
+ * Splits a relation pseudo-field path into the relation path and the pseudo-field
+ * e.g. 'customer.orders.$count' -> ['customer.orders', '$count']
+ * @param path field path
+ * @returns relation path and pseudo-field, or undefined if path does not end with a pseudo-field
+ */
+export function splitRelationAggregate(
+  path: string,
+): [string, RelationAggregate] | undefined {
+  const index = path.lastIndexOf('.');
+  const aggregate = path.substring(index + 1);
+
+  return index > 0 && isRelationAggregate(aggregate)
+    ? [path.substring(0, index), aggregate]
+    : undefined;
+}
+
+/**
+ * Finds the to-many relation a pseudo-field path of an entity counts
+ * (e.g. 'articles.$count'), which must be a relation of the entity itself
+ * @param metadata entity metadata
+ * @param path pseudo-field path at entity level
+ * @returns relation and pseudo-field, or undefined if path is not a pseudo-field of the entity
+ * @throws RepositoryInvalidArgumentException if relation is not a to-many one,
+ * or the property its value is set into is a column or relation of the entity
+ */
+export function findRelationAggregate(
+  metadata: EntityMetadata,
+  path: string,
+): [RelationMetadata, RelationAggregate] | undefined {
+  const split = splitRelationAggregate(path);
+  const relation = split && metadata.findRelationWithPropertyPath(split[0]);
+  if (!split || !relation) {
+    return undefined;
+  }
+
+  if (!relation.isOneToMany && !relation.isManyToMany) {
+    throw new RepositoryInvalidArgumentException(
+      `Relation '${relation.propertyPath}' of ${metadata.tableName} entity is not a to-many relation, so '${path}' cannot be used`,
+    );
+  }
+
+  // Values would overwrite the column or relation they are set into
+  const property: string = getRelationAggregateProperty(relation, split[1]);
+  if (
+    metadata.findColumnWithPropertyPath(property) ||
+    metadata.findRelationWithPropertyPath(property)
+  ) {
+    throw new RepositoryInvalidArgumentException(
+      `'${path}' cannot be used, since its value would be set into '${property}', which is already a field of ${metadata.tableName} entity`,
+    );
+  }
+
+  return [relation, split[1]];
+}
+
+/**
+ * Returns the entity property a relation pseudo-field value is set into
+ * e.g. (articles, '$count') -> 'articlesCount'
+ * @param relation to-many relation
+ * @param aggregate pseudo-field
+ */
+export function getRelationAggregateProperty(
+  relation: RelationMetadata,
+  aggregate: RelationAggregate,
+): string {
+  return (
+    relation.propertyName +
+    (aggregate === RelationAggregate.COUNT ? 'Count' : 'Exists')
+  );
+}
+
+/**
+ * Finds the @RelationId property of an entity with given name
+ * @param metadata entity metadata
+ * @param field property name (e.g. 'customerId')
+ */
+export function findRelationId(
+  metadata: EntityMetadata,
+  field: string,
+): RelationIdMetadata | undefined {
+  return metadata.relationIds.find(
+    (relationId) => relationId.propertyName === field,
+  );
+}
+
+/**
+ * Checks if a relation-id property holds a single id stored in the entity table
+ * (i.e. its relation is many-to-one or owning one-to-one with one join column)
+ * @param relationId relation-id metadata
+ */
+function isColumnRelationId({ relation }: RelationIdMetadata): boolean {
+  return (
+    (relation.isManyToOne || relation.isOneToOneOwner) &&
+    relation.joinColumns.length === 1
+  );
+}
+
+/**
+ * Returns the property path TypeORM resolves into the SQL column of an entity field.
+ * Relation-id properties are mapped to their relation, whose join column holds the id
+ * e.g. 'address.city' -> 'address.city', 'customerId' -> 'customer'
+ * @param metadata entity metadata
+ * @param field field path at entity level
+ * @throws RepositoryInvalidArgumentException if field is a relation-id property with no column of its own
+ */
+export function getColumnPropertyPath(
+  metadata: EntityMetadata,
+  field: string,
+): string {
+  const relationId = findRelationId(metadata, field);
+  if (!relationId) {
+    return field;
+  }
+
+  if (!isColumnRelationId(relationId)) {
+    throw new RepositoryInvalidArgumentException(
+      `Relation id '${field}' of ${metadata.tableName} entity is not stored in its table, so it cannot be filtered or sorted by`,
+    );
+  }
+
+  return relationId.relation.propertyPath;
+}
+
+/**
+ * Returns the column paths of an embedded, selected by its property path or wildcard
+ * e.g. 'address' or 'address.*' -> ['address.street', 'address.city']
+ * @param metadata entity metadata
+ * @param path embedded path at entity level
+ * @returns column property paths, or undefined if path is not an embedded
+ */
+export function getEmbeddedColumnPaths(
+  metadata: EntityMetadata,
+  path: string,
+): string[] | undefined {
+  const embedded = metadata.findEmbeddedWithPropertyPath(
+    path.endsWith('.*') ? path.substring(0, path.length - 2) : path,
+  );
+
+  return embedded?.columnsFromTree.map((column) => column.propertyPath);
+}
+
+/**
+ * Finds the column a (possibly dotted) field path points to, following relations
+ * Relation-id properties point to the join column holding the id, if any, and
+ * virtual fields to their virtual property column (see registerVirtualField)
+ * @param metadata entity metadata where path starts
+ * @param path field path (e.g. 'articles.price', 'address.city')
+ * @returns column metadata, or undefined if path cannot be resolved
+ */
+export function findColumnByPath(
+  metadata: EntityMetadata,
+  path: string,
+): ColumnMetadata | undefined {
+  const [relations, field] = splitEntityPath(metadata, path);
+  const entityMetadata: EntityMetadata = relations.length
+    ? relations[relations.length - 1].inverseEntityMetadata
+    : metadata;
+
+  const relationId = findRelationId(entityMetadata, field);
+  if (relationId) {
+    return isColumnRelationId(relationId)
+      ? relationId.relation.joinColumns[0]
+      : undefined;
+  }
+
+  return (
+    entityMetadata.findColumnWithPropertyPath(field) ??
+    findVirtualFieldColumn(entityMetadata, field)
+  );
+}
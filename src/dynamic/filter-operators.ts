@@ -0,0 +1,357 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { FilterOperator, FilterValue } from '../query/query-options.interface';
+import { coerceFilterValue } from './filter-value';
+import {
+  buildJsonContainsCondition,
+  buildJsonHasKeyCondition,
+} from './json-paths';
+import { ALIAS_STRATEGY } from './join-aliases';
+
+/**
+ * Builds the SQL condition of a filter operator
+ * Conditions are returned instead of added to the query, since they may end up
+ * inside filter groups or quantified subqueries
+ * @param qb query builder the condition is added to
+ * @param sqlField field to filter (e.g. 'order.total'), or the JSON document for JSON operators
+ * @param paramName unique parameter name for the value, used as ':paramName'
+ * @param value filter value, already checked by operator validator
+ * @param driver database driver type (e.g. 'postgres')
+ * @returns SQL condition and its parameters
+ */
+export type FilterOperatorBuilder = <T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  sqlField: string,
+  paramName: string,
+  value: FilterValue,
+  driver: string,
+) => [string, ObjectLiteral];
+
+/**
+ * Checks and coerces the value of a filter operator when the query tree is built
+ * @param value filter value as received
+ * @param column filtered column, undefined for paths inside JSON documents
+ * @param path field path, used in error messages
+ * @returns value the condition is built with
+ * @throws RepositoryInvalidArgumentException if value is not valid
+ */
+export type FilterValueValidator = (
+  value: FilterValue | undefined,
+  column: ColumnMetadata | undefined,
+  path: string,
+) => FilterValue;
+
+/**
+ * Filter operator implementation
+ */
+export interface FilterOperatorDefinition {
+  build: FilterOperatorBuilder;
+  /**
+   * Value validator. Values are used as they come if not provided
+   */
+  validate?: FilterValueValidator;
+  /**
+   * Whether operator works on JSON documents (e.g. 'payload' or 'payload->customer'),
+   * so the document is filtered instead of a scalar value inside it
+   */
+  json?: boolean;
+}
+
+/**
+ * Filter operators by name (e.g. 'withinRadius')
+ */
+export type FilterOperatorRegistry = Map<string, FilterOperatorDefinition>;
+
+// Character used to escape LIKE wildcards in user values.
+// Not a backslash, since its meaning inside string literals differs per driver
+const LIKE_ESCAPE_CHARACTER: string = '!';
+
+// Drivers supporting case insensitive ILIKE operator
+const ILIKE_DRIVERS: string[] = ['postgres', 'aurora-postgres', 'cockroachdb'];
+
+// Drivers supporting full-text search (to_tsvector / plainto_tsquery)
+const FULL_TEXT_DRIVERS: string[] = ['postgres', 'aurora-postgres'];
+
+/**
+ * Checks driver supports full-text search
+ * @param driver database driver type (e.g. 'postgres')
+ * @throws RepositoryInvalidArgumentException if it does not
+ */
+export function assertFullTextDriver(driver: string): void {
+  if (!FULL_TEXT_DRIVERS.includes(driver)) {
+    throw new RepositoryInvalidArgumentException(
+      `Full-text search is not supported by ${driver} driver`,
+    );
+  }
+}
+
+/**
+ * Escapes LIKE wildcards (% and _) so user values are matched literally
+ * @param value user value
+ */
+function escapeLikeValue(value: FilterValue): string {
+  return String(value).replace(
+    /[!%_]/g,
+    (char) => LIKE_ESCAPE_CHARACTER + char,
+  );
+}
+
+/**
+ * Function to build a LIKE SQL condition, case insensitive depending on driver
+ * @param driver database driver type (e.g. 'postgres')
+ * @param sqlField field to match
+ * @param placeholder parameter name
+ * @param pattern LIKE pattern
+ * @param caseInsensitive whether case must be ignored
+ * @param negate whether pattern must NOT match
+ */
+function buildLikeCondition(
+  driver: string,
+  sqlField: string,
+  placeholder: string,
+  pattern: string,
+  caseInsensitive: boolean,
+  negate: boolean = false,
+): [string, ObjectLiteral] {
+  const not: string = negate ? 'NOT ' : '';
+  const escape: string = " ESCAPE '" + LIKE_ESCAPE_CHARACTER + "'";
+  let condition: string;
+
+  if (!caseInsensitive) {
+    condition = sqlField + ' ' + not + 'LIKE :' + placeholder;
+  } else if (ILIKE_DRIVERS.includes(driver)) {
+    condition = sqlField + ' ' + not + 'ILIKE :' + placeholder;
+  } else {
+    condition =
+      'LOWER(' + sqlField + ') ' + not + 'LIKE LOWER(:' + placeholder + ')';
+  }
+
+  return [condition + escape, { [`${placeholder}`]: pattern }];
+}
+
+/**
+ * Defines a built-in operator comparing field with a single value (e.g. '>')
+ * @param operator built-in operator
+ * @param sqlOperator SQL comparison operator
+ * @param sqlNullCondition SQL condition following field when value is null (e.g. 'IS NULL'),
+ * since comparing with NULL never matches
+ */
+function comparisonOperator(
+  operator: FilterOperator,
+  sqlOperator: string,
+  sqlNullCondition?: string,
+): [string, FilterOperatorDefinition] {
+  return [
+    operator,
+    {
+      build: (qb, sqlField, paramName, value) =>
+        value === null && sqlNullCondition
+          ? [sqlField + ' ' + sqlNullCondition, {}]
+          : [
+              sqlField + ' ' + sqlOperator + ' :' + paramName,
+              { [`${paramName}`]: value },
+            ],
+      validate: (value, column, path) =>
+        coerceFilterValue(column, operator, value, path),
+    },
+  ];
+}
+
+/**
+ * Defines a built-in LIKE operator
+ * @param operator built-in operator
+ * @param prefix whether pattern may have anything before value
+ * @param suffix whether pattern may have anything after value
+ * @param caseInsensitive whether case must be ignored
+ * @param negate whether pattern must NOT match
+ */
+function likeOperator(
+  operator: FilterOperator,
+  prefix: boolean,
+  suffix: boolean,
+  caseInsensitive: boolean,
+  negate: boolean = false,
+): [string, FilterOperatorDefinition] {
+  return [
+    operator,
+    {
+      build: (qb, sqlField, paramName, value, driver) =>
+        buildLikeCondition(
+          driver,
+          sqlField,
+          paramName,
+          (prefix ? '%' : '') + escapeLikeValue(value) + (suffix ? '%' : ''),
+          caseInsensitive,
+          negate,
+        ),
+      validate: (value, column, path) =>
+        coerceFilterValue(column, operator, value, path),
+    },
+  ];
+}
+
+/**
+ * Defines a built-in operator whose condition needs no value (e.g. IS NULL)
+ * @param operator built-in operator
+ * @param sqlCondition SQL condition following field
+ */
+function nullOperator(
+  operator: FilterOperator,
+  sqlCondition: string,
+): [string, FilterOperatorDefinition] {
+  return [
+    operator,
+    {
+      build: (qb, sqlField) => [sqlField + ' ' + sqlCondition, {}],
+      validate: (value, column, path) =>
+        coerceFilterValue(column, operator, value, path),
+    },
+  ];
+}
+
+/**
+ * Defines a built-in operator filtering by a list of values (e.g. IN)
+ * @param operator built-in operator
+ * @param sqlOperator SQL list operator
+ */
+function listOperator(
+  operator: FilterOperator,
+  sqlOperator: string,
+): [string, FilterOperatorDefinition] {
+  return [
+    operator,
+    {
+      build: (qb, sqlField, paramName, value) => [
+        sqlField + ' ' + sqlOperator + ' (:...' + paramName + ')',
+        { [`${paramName}`]: Array.isArray(value) ? value : [value] },
+      ],
+      validate: (value, column, path) =>
+        coerceFilterValue(column, operator, value, path),
+    },
+  ];
+}
+
+/**
+ * Built-in filter operators, one per FilterOperator value
+ */
+export const BUILT_IN_OPERATORS: FilterOperatorRegistry = new Map([
+  comparisonOperator(FilterOperator.EQUAL, '=', 'IS NULL'),
+  comparisonOperator(FilterOperator.NOT_EQUAL, '!=', 'IS NOT NULL'),
+  comparisonOperator(FilterOperator.LOWER, '<'),
+  comparisonOperator(FilterOperator.LOWER_OR_EQUAL, '<='),
+  comparisonOperator(FilterOperator.GREATER, '>'),
+  comparisonOperator(FilterOperator.GREATER_OR_EQUAL, '>='),
+  listOperator(FilterOperator.IN, 'IN'),
+  listOperator(FilterOperator.NOT_IN, 'NOT IN'),
+  nullOperator(FilterOperator.IS_NULL, 'IS NULL'),
+  nullOperator(FilterOperator.IS_NOT_NULL, 'IS NOT NULL'),
+  likeOperator(FilterOperator.CONTAINS, true, true, false),
+  likeOperator(FilterOperator.NOT_CONTAINS, true, true, false, true),
+  likeOperator(FilterOperator.STARTS_WITH, false, true, false),
+  likeOperator(FilterOperator.ENDS_WITH, true, false, false),
+  likeOperator(FilterOperator.CONTAINS_INSENSITIVE, true, true, true),
+  likeOperator(FilterOperator.STARTS_WITH_INSENSITIVE, false, true, true),
+  likeOperator(FilterOperator.ENDS_WITH_INSENSITIVE, true, false, true),
+  [
+    FilterOperator.BETWEEN,
+    {
+      build: (qb, sqlField, paramName, value) => {
+        const [from, to] = value as FilterValue[];
+        const toParamName: string = paramName + ALIAS_STRATEGY + 'to';
+        return [
+          sqlField + ' BETWEEN :' + paramName + ' AND :' + toParamName,
+          { [`${paramName}`]: from, [`${toParamName}`]: to },
+        ];
+      },
+      validate: (value, column, path) =>
+        coerceFilterValue(column, FilterOperator.BETWEEN, value, path),
+    },
+  ],
+  [
+    FilterOperator.MATCHES,
+    {
+      build: (qb, sqlField, paramName, value, driver) => {
+        assertFullTextDriver(driver);
+        return [
+          'to_tsvector(' +
+            sqlField +
+            ') @@ plainto_tsquery(:' +
+            paramName +
+            ')',
+          { [`${paramName}`]: value },
+        ];
+      },
+      validate: (value, column, path) =>
+        coerceFilterValue(column, FilterOperator.MATCHES, value, path),
+    },
+  ],
+  [
+    FilterOperator.JSON_CONTAINS,
+    {
+      build: (qb, document, paramName, value, driver) => [
+        buildJsonContainsCondition(driver, document, paramName),
+        { [`${paramName}`]: value },
+      ],
+      validate: (value, column, path) =>
+        coerceFilterValue(column, FilterOperator.JSON_CONTAINS, value, path),
+      json: true,
+    },
+  ],
+  [
+    FilterOperator.JSON_HAS_KEY,
+    {
+      build: (qb, document, paramName, value, driver) =>
+        buildJsonHasKeyCondition(driver, document, String(value), paramName),
+      validate: (value, column, path) =>
+        coerceFilterValue(column, FilterOperator.JSON_HAS_KEY, value, path),
+      json: true,
+    },
+  ],
+]);
+
+/**
+ * Checks a custom operator name does not replace a built-in operator
+ * @param name operator name
+ * @throws RepositoryInvalidArgumentException if it does
+ */
+export function assertCustomOperatorName(name: string): void {
+  if (BUILT_IN_OPERATORS.has(name)) {
+    throw new RepositoryInvalidArgumentException(
+      `Filter operator '${name}' is built-in, so it cannot be registered`,
+    );
+  }
+}
+
+/**
+ * Builds the operator registry of a repository: built-in operators plus custom ones
+ * @param operators custom operators, which cannot replace built-in ones
+ */
+export function createOperatorRegistry(
+  operators: FilterOperatorRegistry = new Map(),
+): FilterOperatorRegistry {
+  operators.forEach((definition, name) => assertCustomOperatorName(name));
+
+  return new Map([...BUILT_IN_OPERATORS, ...operators]);
+}
+
+/**
+ * Returns a filter operator implementation
+ * @param registry operator registry
+ * @param operator operator name
+ * @throws RepositoryInvalidArgumentException if operator is not registered
+ */
+export function getFilterOperator(
+  registry: FilterOperatorRegistry,
+  operator: string,
+): FilterOperatorDefinition {
+  const definition = registry.get(operator);
+  if (!definition) {
+    throw new RepositoryInvalidArgumentException(
+      `Unknown filter operator '${operator}'`,
+    );
+  }
+
+  return definition;
+}
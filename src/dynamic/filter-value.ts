@@ -0,0 +1,401 @@
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import {
+  FilterOperator,
+  FilterPrimitiveValue,
+  FilterValue,
+} from '../query/query-options.interface';
+import { isJsonKey } from './json-paths';
+
+const INTEGER_TYPES: string[] = [
+  'int',
+  'int2',
+  'int4',
+  'integer',
+  'tinyint',
+  'smallint',
+  'mediumint',
+  'year',
+];
+
+// These types may overflow JS numbers, so they are kept as strings once validated
+const BIG_NUMERIC_TYPES: string[] = [
+  'int8',
+  'int64',
+  'bigint',
+  'unsigned big int',
+  'dec',
+  'decimal',
+  'smalldecimal',
+  'fixed',
+  'numeric',
+  'money',
+  'smallmoney',
+];
+
+const FLOAT_TYPES: string[] = [
+  'float',
+  'float4',
+  'float8',
+  'float64',
+  'double',
+  'double precision',
+  'real',
+  'number',
+];
+
+const BOOLEAN_TYPES: string[] = ['boolean', 'bool'];
+
+// Calendar dates without time, kept as 'YYYY-MM-DD' strings since drivers store them as text
+// (a Date would be compared with its time part, or shifted by the connection time zone)
+const DATE_TYPES: string[] = ['date'];
+
+const TIMESTAMP_TYPES: string[] = [
+  'datetime',
+  'datetime2',
+  'datetimeoffset',
+  'smalldatetime',
+  'seconddate',
+  'timestamp',
+  'timestamptz',
+  'timestamp with time zone',
+  'timestamp without time zone',
+  'timestamp with local time zone',
+];
+
+const UUID_TYPES: string[] = ['uuid', 'uniqueidentifier'];
+
+const DATE_REGEX: RegExp = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const UUID_REGEX: RegExp =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Returns column type name, resolving JS constructors (e.g. @Column() name: string)
+ * @param column column metadata
+ */
+function getColumnTypeName(column: ColumnMetadata): string {
+  if (column.generationStrategy === 'uuid') {
+    return 'uuid';
+  }
+
+  switch (column.type) {
+    case String:
+      return 'varchar';
+    case Number:
+      return 'number';
+    case Boolean:
+      return 'boolean';
+    case Date:
+      return 'datetime';
+    default:
+      return String(column.type).toLowerCase();
+  }
+}
+
+/**
+ * Coerces a single value to the JS type expected by the column type
+ * @param column column metadata, undefined for values inside JSON documents
+ * @param value value to coerce
+ * @param path field path, used in error messages
+ */
+function coerceSingleValue(
+  column: ColumnMetadata | undefined,
+  value: FilterPrimitiveValue,
+  path: string,
+): FilterPrimitiveValue {
+  if (value === null) {
+    return value;
+  }
+
+  const type: string = column ? getColumnTypeName(column) : 'json';
+  const invalid = (expected: string): RepositoryInvalidArgumentException =>
+    new RepositoryInvalidArgumentException(
+      `Invalid value '${String(value)}' for field '${path}': expected ${expected}`,
+    );
+
+  if (
+    INTEGER_TYPES.includes(type) ||
+    BIG_NUMERIC_TYPES.includes(type) ||
+    FLOAT_TYPES.includes(type)
+  ) {
+    const expected: string = INTEGER_TYPES.includes(type)
+      ? 'an integer'
+      : 'a number';
+
+    if (
+      (typeof value !== 'string' && typeof value !== 'number') ||
+      (typeof value === 'string' && !value.trim().length)
+    ) {
+      throw invalid(expected);
+    }
+
+    const numberValue = Number(value);
+    if (
+      !Number.isFinite(numberValue) ||
+      (INTEGER_TYPES.includes(type) && !Number.isInteger(numberValue))
+    ) {
+      throw invalid(expected);
+    }
+
+    return BIG_NUMERIC_TYPES.includes(type)
+      ? String(value).trim()
+      : numberValue;
+  }
+
+  if (BOOLEAN_TYPES.includes(type)) {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (value === 'true' || value === '1' || value === 1) {
+      return true;
+    }
+    if (value === 'false' || value === '0' || value === 0) {
+      return false;
+    }
+    throw invalid('a boolean');
+  }
+
+  if (DATE_TYPES.includes(type)) {
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        throw invalid('a date');
+      }
+
+      // Same calendar date TypeORM persists for Date values
+      return DateUtils.mixedDateToDateString(value);
+    }
+
+    const match = typeof value === 'string' ? value.match(DATE_REGEX) : null;
+    if (!match) {
+      throw invalid("a date as 'YYYY-MM-DD'");
+    }
+
+    // Rejects dates out of calendar (e.g. '2024-02-30')
+    const [, year, month, day] = match.map(Number);
+    const dateValue = new Date(Date.UTC(year, month - 1, day));
+    if (
+      dateValue.getUTCMonth() !== month - 1 ||
+      dateValue.getUTCDate() !== day
+    ) {
+      throw invalid("a date as 'YYYY-MM-DD'");
+    }
+
+    return value;
+  }
+
+  if (TIMESTAMP_TYPES.includes(type)) {
+    if (typeof value === 'boolean') {
+      throw invalid('a date');
+    }
+
+    const dateValue = value instanceof Date ? value : new Date(value);
+    if (isNaN(dateValue.getTime())) {
+      throw invalid('a date');
+    }
+
+    return dateValue;
+  }
+
+  if (UUID_TYPES.includes(type)) {
+    if (typeof value !== 'string' || !UUID_REGEX.test(value)) {
+      throw invalid('a UUID');
+    }
+
+    return value;
+  }
+
+  // Any other column type (strings, enums, JSON values...) is compared as it comes,
+  // just making sure dates are not stringified differently by each driver
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return value;
+}
+
+// Operators that filter by a list of values
+const LIST_OPERATORS: FilterOperator[] = [
+  FilterOperator.IN,
+  FilterOperator.NOT_IN,
+];
+
+// Operators that do not need any value
+const NULL_OPERATORS: FilterOperator[] = [
+  FilterOperator.IS_NULL,
+  FilterOperator.IS_NOT_NULL,
+];
+
+// Operators accepting null as value, matching it as IS NULL / IS NOT NULL
+const NULL_COMPARABLE_OPERATORS: FilterOperator[] = [
+  FilterOperator.EQUAL,
+  FilterOperator.NOT_EQUAL,
+];
+
+// Operators that match text patterns or queries, so value is always used as text
+const LIKE_OPERATORS: FilterOperator[] = [
+  FilterOperator.MATCHES,
+  FilterOperator.CONTAINS,
+  FilterOperator.NOT_CONTAINS,
+  FilterOperator.STARTS_WITH,
+  FilterOperator.ENDS_WITH,
+  FilterOperator.CONTAINS_INSENSITIVE,
+  FilterOperator.STARTS_WITH_INSENSITIVE,
+  FilterOperator.ENDS_WITH_INSENSITIVE,
+];
+
+// Operators on JSON documents, whose values are not coerced against column type
+const JSON_OPERATORS: FilterOperator[] = [
+  FilterOperator.JSON_CONTAINS,
+  FilterOperator.JSON_HAS_KEY,
+];
+
+/**
+ * Checks and normalizes the value of a JSON operator
+ * @param operator JSON operator
+ * @param value filter value
+ * @param path field path, used in error messages
+ * @returns JSON text to contain, or key to exist
+ */
+function coerceJsonOperatorValue(
+  operator: FilterOperator,
+  value: FilterValue,
+  path: string,
+): string {
+  if (operator === FilterOperator.JSON_HAS_KEY) {
+    if (typeof value !== 'string' || !isJsonKey(value)) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${path}' expects a JSON key for operator '${operator}', received '${String(value)}'`,
+      );
+    }
+
+    return value;
+  }
+
+  try {
+    return JSON.stringify(
+      JSON.parse(typeof value === 'string' ? value : JSON.stringify(value)),
+    );
+  } catch {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${path}' expects a JSON document for operator '${operator}', received '${String(value)}'`,
+    );
+  }
+}
+
+/**
+ * Splits a comma separated list, taking into account escaped commas (e.g. 'a\,b,c' -> ['a,b', 'c'])
+ * @param value list value
+ */
+export function splitListValue(value: string): string[] {
+  const listValues: string[] = [''];
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      listValues[listValues.length - 1] += value[++i];
+    } else if (value[i] === ',') {
+      listValues.push('');
+    } else {
+      listValues[listValues.length - 1] += value[i];
+    }
+  }
+
+  return listValues;
+}
+
+/**
+ * Turns a value into a list of values, accepting legacy comma separated strings
+ * (commas inside values escaped as '\,', as serializeQueryString does)
+ * @param value filter value
+ */
+function toListValues(value: FilterValue): FilterPrimitiveValue[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return splitListValue(value).map((listValue) => listValue.trim());
+  }
+
+  return [value];
+}
+
+/**
+ * Checks and coerces a filter value against the column it filters
+ * Lists are only accepted by list operators (e.g. IN) and BETWEEN, which also
+ * accept legacy comma separated strings
+ * @param column column metadata, undefined for values inside JSON documents (compared as they come)
+ * @param operator filter operator
+ * @param value filter value
+ * @param path field path, used in error messages
+ * @returns coerced value
+ */
+export function coerceFilterValue(
+  column: ColumnMetadata | undefined,
+  operator: FilterOperator,
+  value: FilterValue | undefined,
+  path: string,
+): FilterValue {
+  if (NULL_OPERATORS.includes(operator)) {
+    return null;
+  }
+
+  if (value === undefined) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${path}' expects a value for operator '${operator}'`,
+    );
+  }
+
+  if (JSON_OPERATORS.includes(operator)) {
+    return coerceJsonOperatorValue(operator, value, path);
+  }
+
+  if (LIST_OPERATORS.includes(operator)) {
+    const listValues: FilterPrimitiveValue[] = toListValues(value);
+
+    if (!listValues.length) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${path}' expects a non empty list of values`,
+      );
+    }
+
+    return listValues.map((listValue) =>
+      coerceSingleValue(column, listValue, path),
+    );
+  }
+
+  if (operator === FilterOperator.BETWEEN) {
+    const rangeValues: FilterPrimitiveValue[] = toListValues(value);
+
+    if (rangeValues.length !== 2) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${path}' expects exactly two values for operator '${operator}'`,
+      );
+    }
+
+    return rangeValues.map((rangeValue) =>
+      coerceSingleValue(column, rangeValue, path),
+    );
+  }
+
+  if (Array.isArray(value)) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${path}' expects a single value for operator '${operator}'`,
+    );
+  }
+
+  // Just equality filters by null, as IS NULL / IS NOT NULL
+  if (value === null && !NULL_COMPARABLE_OPERATORS.includes(operator)) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${path}' expects a non null value for operator '${operator}'`,
+    );
+  }
+
+  if (LIKE_OPERATORS.includes(operator)) {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  return coerceSingleValue(column, value, path);
+}
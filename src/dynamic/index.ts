@@ -1,2 +1,15 @@
 export * from './dynamic-repository';
+export { BUILT_IN_OPERATORS } from './filter-operators';
+export type {
+  FilterOperatorBuilder,
+  FilterOperatorDefinition,
+  FilterOperatorRegistry,
+  FilterValueValidator,
+} from './filter-operators';
 export * from './query-tree';
+export * from './repository-hooks';
+export { registerVirtualField, VirtualField } from './virtual-fields';
+export type {
+  VirtualFieldDefinition,
+  VirtualFieldExpression,
+} from './virtual-fields';
@@ -0,0 +1,135 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { QueryJoin } from '../repository.interface';
+import { getColumnPropertyPath, splitEntityPath } from './entity-paths';
+
+// SEPARATOR USED TO BUILD GENERATED NAMES (ALIASES, PARAMETERS, RAW SELECTIONS)
+// e.g. articles__1, articles__1__price
+export const ALIAS_STRATEGY: string = '__';
+
+// Relation names are cut to keep aliases short, whatever the join depth is
+const MAX_ALIAS_NAME_LENGTH: number = 16;
+
+/**
+ * Returns a short alias not used yet for an entity joined at given relation
+ * e.g. ('articles') -> 'articles__1', then 'articles__2' if joined again
+ * Aliases do not depend on join path, so they never collide nor grow with depth
+ * @param qbs query builders alias must be unique in (subqueries must not hide outer aliases)
+ * @param relationName relation property name
+ * @param scope optional name part telling apart aliases of subqueries (e.g. 'some')
+ */
+export function createJoinAlias(
+  qbs: Pick<SelectQueryBuilder<ObjectLiteral>, 'expressionMap'>[],
+  relationName: string,
+  scope?: string,
+): string {
+  const name: string =
+    relationName.substring(0, MAX_ALIAS_NAME_LENGTH) +
+    (scope ? ALIAS_STRATEGY + scope : '');
+  const isUsed = (alias: string): boolean =>
+    qbs.some((qb) =>
+      qb.expressionMap.aliases.some((existing) => existing.name === alias),
+    );
+
+  let index = 1;
+  let alias = name + ALIAS_STRATEGY + index;
+  while (isUsed(alias)) {
+    alias = name + ALIAS_STRATEGY + ++index;
+  }
+  return alias;
+}
+
+/**
+ * Returns the alias a relation of an entity has been joined with
+ * @param qb query builder
+ * @param alias Entity alias
+ * @param relationName relation property name
+ * @returns relation alias, or undefined if relation has not been joined
+ */
+export function findJoinAlias<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  relationName: string,
+): string | undefined {
+  return qb.expressionMap.joinAttributes.find(
+    (join) =>
+      join.parentAlias === alias && join.relationPropertyPath === relationName,
+  )?.alias.name;
+}
+
+/**
+ * Resolves the SQL alias and property path of a (possibly dotted) field path
+ * e.g. ('order', 'articles.price') -> ['articles__1', 'price']
+ * e.g. ('order', 'customer.address.city') -> ['customer__1', 'address.city']
+ * Relation-id properties are resolved to their relation, which TypeORM maps to its join column
+ * @param qb query builder
+ * @param alias Entity alias
+ * @param field field path relative to entity
+ * @throws RepositoryInvalidArgumentException if any relation of the path has not been joined
+ */
+export function resolveFieldAlias<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  field: string,
+): [string, string] {
+  const metadata = qb.expressionMap.findAliasByName(alias).metadata;
+  const [relations, fieldName] = splitEntityPath(metadata, field);
+
+  const fieldAlias = relations.reduce((parentAlias, relation) => {
+    const relationAlias = findJoinAlias(qb, parentAlias, relation.propertyPath);
+    if (!relationAlias) {
+      throw new RepositoryInvalidArgumentException(
+        `Relation '${relation.propertyPath}' of field '${field}' has not been joined`,
+      );
+    }
+    return relationAlias;
+  }, alias);
+
+  const fieldMetadata = relations.length
+    ? relations[relations.length - 1].inverseEntityMetadata
+    : metadata;
+
+  return [fieldAlias, getColumnPropertyPath(fieldMetadata, fieldName)];
+}
+
+/**
+ * Maps every joined alias back to its relation path, which helps reading generated SQL
+ * e.g. { order: '', articles__1: 'articles', tags__1: 'articles.tags' }
+ * @param qb query builder
+ */
+export function getJoinAliasPaths<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+): Record<string, string> {
+  const paths: Record<string, string> = { [qb.alias]: '' };
+
+  qb.expressionMap.joinAttributes.forEach((join) => {
+    const parentPath = join.parentAlias ? paths[join.parentAlias] : undefined;
+    if (parentPath !== undefined && join.relationPropertyPath) {
+      paths[join.alias.name] = parentPath
+        ? parentPath + '.' + join.relationPropertyPath
+        : join.relationPropertyPath;
+    }
+  });
+
+  return paths;
+}
+
+/**
+ * Lists joined relations with their alias and depth, in join order
+ * @param qb query builder
+ */
+export function getQueryJoins<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+): QueryJoin[] {
+  const paths: Record<string, string> = getJoinAliasPaths(qb);
+
+  return qb.expressionMap.joinAttributes
+    .filter((join) => paths[join.alias.name])
+    .map((join) => ({
+      path: paths[join.alias.name],
+      alias: join.alias.name,
+      depth: paths[join.alias.name].split('.').length,
+      type: join.direction,
+    }));
+}
@@ -0,0 +1,313 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { FilterValue } from '../query/query-options.interface';
+
+// Separates a JSON column path from the keys inside it
+// e.g. 'meta.payload->customer->tier'
+export const JSON_PATH_SEPARATOR: string = '->';
+
+// Keys are inlined into SQL JSON paths, so just plain ones are accepted.
+// Numeric keys are array indexes
+const JSON_KEY_REGEX: RegExp = /^[\w-]+$/;
+const JSON_INDEX_REGEX: RegExp = /^\d+$/;
+
+const JSON_COLUMN_TYPES: string[] = ['json', 'jsonb', 'simple-json'];
+
+const POSTGRES_DRIVERS: string[] = [
+  'postgres',
+  'aurora-postgres',
+  'cockroachdb',
+];
+const MYSQL_DRIVERS: string[] = ['mysql', 'mariadb', 'aurora-mysql'];
+const SQLITE_DRIVERS: string[] = [
+  'sqlite',
+  'better-sqlite3',
+  'capacitor',
+  'cordova',
+  'expo',
+  'nativescript',
+  'react-native',
+  'sqljs',
+];
+
+/**
+ * Splits a field path into the column path and the JSON keys inside the column
+ * e.g. 'meta.payload->customer->tier' -> ['meta.payload', ['customer', 'tier']]
+ * @param path field path
+ * @returns column path and JSON keys (empty if path does not go into a JSON column)
+ */
+export function splitJsonPath(path: string): [string, string[]] {
+  const [columnPath, ...keys] = path.split(JSON_PATH_SEPARATOR);
+  return [columnPath, keys];
+}
+
+/**
+ * Checks if a column stores JSON documents
+ * @param column column metadata
+ */
+export function isJsonColumn(column: ColumnMetadata): boolean {
+  return JSON_COLUMN_TYPES.includes(String(column.type).toLowerCase());
+}
+
+/**
+ * Checks if a key can be used in JSON paths
+ * @param key JSON key
+ */
+export function isJsonKey(key: string): boolean {
+  return JSON_KEY_REGEX.test(key);
+}
+
+/**
+ * Checks JSON keys of a path can be used, against the column they go into
+ * @param column column metadata, if path column exists
+ * @param keys JSON keys
+ * @param path field path, used in error messages
+ * @throws RepositoryInvalidArgumentException if column is not JSON or any key is not valid
+ */
+export function assertJsonKeys(
+  column: ColumnMetadata | undefined,
+  keys: string[],
+  path: string,
+): void {
+  if (!column || column.isVirtualProperty || !isJsonColumn(column)) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${splitJsonPath(path)[0]}' is not a JSON column, so '${path}' cannot go into it`,
+    );
+  }
+
+  const invalidKey = keys.find((key) => !isJsonKey(key));
+  if (invalidKey !== undefined) {
+    throw new RepositoryInvalidArgumentException(
+      `Invalid JSON key '${invalidKey}' in '${path}': keys may only contain letters, digits, '_' and '-'`,
+    );
+  }
+}
+
+/**
+ * Builds a JSON path literal for MySQL and SQLite JSON functions
+ * e.g. ['customer', 'tags', '0'] -> '$."customer"."tags"[0]'
+ * @param keys JSON keys
+ */
+function buildJsonPathLiteral(keys: string[]): string {
+  return (
+    "'$" +
+    keys
+      .map((key) => (JSON_INDEX_REGEX.test(key) ? `[${key}]` : `."${key}"`))
+      .join('') +
+    "'"
+  );
+}
+
+/**
+ * Returns the JSON document a path points to in Postgres, as jsonb
+ * @param sqlColumn escaped column
+ * @param column column metadata
+ * @param keys JSON keys
+ */
+function buildPostgresJsonDocument(
+  sqlColumn: string,
+  column: ColumnMetadata,
+  keys: string[],
+): string {
+  // json and simple-json (text) columns do not have jsonb operators
+  const document: string =
+    String(column.type).toLowerCase() === 'jsonb'
+      ? sqlColumn
+      : 'CAST(' + sqlColumn + ' AS jsonb)';
+
+  return keys.length ? document + " #> '{" + keys.join(',') + "}'" : document;
+}
+
+/**
+ * Returns the driver family JSON expressions are built for
+ * @param driver database driver type (e.g. 'postgres')
+ * @throws RepositoryInvalidArgumentException if driver has no JSON support here
+ */
+function getJsonDriver(driver: string): 'postgres' | 'mysql' | 'sqlite' {
+  if (POSTGRES_DRIVERS.includes(driver)) {
+    return 'postgres';
+  }
+  if (MYSQL_DRIVERS.includes(driver)) {
+    return 'mysql';
+  }
+  if (SQLITE_DRIVERS.includes(driver)) {
+    return 'sqlite';
+  }
+
+  throw new RepositoryInvalidArgumentException(
+    `JSON paths are not supported by ${driver} driver`,
+  );
+}
+
+/**
+ * Builds the SQL expression extracting the scalar value of a JSON path
+ * Postgres extracts text, which is cast when compared value is a number or boolean
+ * @param qb query builder
+ * @param sqlColumn escaped column (e.g. "order"."payload")
+ * @param column column metadata
+ * @param keys JSON keys
+ * @param value value the expression is compared to, if any
+ */
+export function buildJsonValueExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  sqlColumn: string,
+  column: ColumnMetadata,
+  keys: string[],
+  value?: FilterValue,
+): string {
+  switch (getJsonDriver(qb.connection.options.type)) {
+    case 'postgres': {
+      const document: string = buildPostgresJsonDocument(sqlColumn, column, []);
+      const expression: string =
+        keys.length === 1
+          ? document + " ->> '" + keys[0] + "'"
+          : document + " #>> '{" + keys.join(',') + "}'";
+
+      const sample = Array.isArray(value) ? value[0] : value;
+      if (typeof sample === 'number') {
+        return 'CAST(' + expression + ' AS numeric)';
+      }
+      if (typeof sample === 'boolean') {
+        return 'CAST(' + expression + ' AS boolean)';
+      }
+      return expression;
+    }
+    case 'mysql':
+      return (
+        'JSON_UNQUOTE(JSON_EXTRACT(' +
+        sqlColumn +
+        ', ' +
+        buildJsonPathLiteral(keys) +
+        '))'
+      );
+    default:
+      return (
+        'JSON_EXTRACT(' + sqlColumn + ', ' + buildJsonPathLiteral(keys) + ')'
+      );
+  }
+}
+
+/**
+ * Builds the SQL expression of the JSON document a path points to,
+ * as JSON operators expect it (jsonb on Postgres)
+ * @param qb query builder
+ * @param sqlColumn escaped column
+ * @param column column metadata
+ * @param keys JSON keys, empty for the whole document
+ */
+export function buildJsonDocumentExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  sqlColumn: string,
+  column: ColumnMetadata,
+  keys: string[],
+): string {
+  if (getJsonDriver(qb.connection.options.type) === 'postgres') {
+    return buildPostgresJsonDocument(sqlColumn, column, keys);
+  }
+
+  return keys.length
+    ? 'JSON_EXTRACT(' + sqlColumn + ', ' + buildJsonPathLiteral(keys) + ')'
+    : sqlColumn;
+}
+
+/**
+ * Builds the SQL condition checking a JSON document contains another one
+ * @param driver database driver type (e.g. 'postgres')
+ * @param document JSON document expression
+ * @param placeholder parameter name of the contained JSON document
+ * @throws RepositoryInvalidArgumentException if driver cannot check containment
+ */
+export function buildJsonContainsCondition(
+  driver: string,
+  document: string,
+  placeholder: string,
+): string {
+  switch (getJsonDriver(driver)) {
+    case 'postgres':
+      return document + ' @> CAST(:' + placeholder + ' AS jsonb)';
+    case 'mysql':
+      return 'JSON_CONTAINS(' + document + ', :' + placeholder + ')';
+    default:
+      throw new RepositoryInvalidArgumentException(
+        `JSON containment is not supported by ${driver} driver`,
+      );
+  }
+}
+
+/**
+ * Builds the SQL condition checking a JSON object has a key
+ * @param driver database driver type (e.g. 'postgres')
+ * @param document JSON document expression
+ * @param key key that must exist
+ * @param placeholder parameter name of the key, where driver takes it as parameter
+ * @returns SQL condition and its parameters
+ */
+export function buildJsonHasKeyCondition(
+  driver: string,
+  document: string,
+  key: string,
+  placeholder: string,
+): [string, ObjectLiteral] {
+  switch (getJsonDriver(driver)) {
+    case 'postgres':
+      return [document + ' ? :' + placeholder, { [`${placeholder}`]: key }];
+    case 'mysql':
+      return [
+        'JSON_CONTAINS_PATH(' +
+          document +
+          ", 'one', " +
+          buildJsonPathLiteral([key]) +
+          ')',
+        {},
+      ];
+    default:
+      return [
+        'JSON_TYPE(' +
+          document +
+          ', ' +
+          buildJsonPathLiteral([key]) +
+          ') IS NOT NULL',
+        {},
+      ];
+  }
+}
+
+/**
+ * Picks some paths of a JSON document, leaving the rest out
+ * e.g. ({ customer: { tier: 1, name: 'a' }, total: 2 }, [['customer', 'tier']]) -> { customer: { tier: 1 } }
+ * @param document JSON document
+ * @param paths JSON key paths to keep
+ * @returns a new document with picked paths, or document itself if it is not an object
+ */
+export function pickJsonPaths(document: unknown, paths: string[][]): unknown {
+  if (!document || typeof document !== 'object') {
+    return document;
+  }
+
+  const picked: ObjectLiteral = Array.isArray(document) ? [] : {};
+
+  paths.forEach((keys) => {
+    let source: unknown = document;
+    let target: ObjectLiteral = picked;
+
+    keys.forEach((key, index) => {
+      if (!source || typeof source !== 'object' || !(key in source)) {
+        source = undefined;
+        return;
+      }
+
+      const value: unknown = (source as ObjectLiteral)[key];
+      if (index === keys.length - 1) {
+        target[key] = value;
+      } else if (value && typeof value === 'object') {
+        target[key] = target[key] ?? (Array.isArray(value) ? [] : {});
+        target = target[key];
+      }
+      source = value;
+    });
+  });
+
+  return picked;
+}
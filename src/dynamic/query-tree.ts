@@ -1,18 +1,199 @@
-import { DataSource, EntityMetadata } from 'typeorm';
+import { DataSource, EntityMetadata, ObjectLiteral } from 'typeorm';
 import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
 import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
 
 import { RepositoryInvalidArgumentException } from '../../../exceptions';
 import {
   CommonQueryOptions,
+  FilterExpression,
+  FilterOperator,
+  FilterQuantifier,
   FilterType,
+  getFilterLeaves,
+  isFilterGroup,
   OrderingBy,
+  OrderType,
+  SearchMode,
+  SearchOptions,
 } from '../query/query-options.interface';
+import {
+  assertPathExposed,
+  ExposureAction,
+  ExposurePolicyRegistry,
+  getExposurePolicy,
+  isExposed,
+} from '../policy/exposure-policy';
+import { assertQueryLimits, QueryLimits } from '../policy/query-limits';
 import { CommonFindOptions, FindParams } from '../repository.interface';
+import {
+  findColumnByPath,
+  findRelationAggregate,
+  findRelationId,
+  getColumnPropertyPath,
+  getEmbeddedColumnPaths,
+  splitEntityPath,
+  splitRelationAggregate,
+  splitRelationPath,
+} from './entity-paths';
+import {
+  BUILT_IN_OPERATORS,
+  FilterOperatorRegistry,
+  getFilterOperator,
+} from './filter-operators';
+import {
+  assertJsonKeys,
+  JSON_PATH_SEPARATOR,
+  splitJsonPath,
+} from './json-paths';
+import { getVirtualFieldNames } from './virtual-fields';
 
 export interface CommonSQLClauses {
-  where?: FilterType[];
+  where?: FilterExpression[];
   ordering?: OrderingBy[];
+  search?: SearchOptions; // Search entities are ranked by, only at root node
+}
+
+/**
+ * Differences between two query trees, as node paths (e.g. 'articles.sku')
+ */
+export interface QueryTreeDiff {
+  added: string[]; // Nodes only in the other tree
+  removed: string[]; // Nodes only in this tree
+  changed: string[]; // Nodes whose clauses differ, '' being the root one
+}
+
+/**
+ * Everything query tree needs to be built, besides find params
+ */
+export interface QueryTreeContext {
+  dataSource: DataSource;
+  policies?: ExposurePolicyRegistry; // Entity exposure policies
+  operators?: FilterOperatorRegistry; // Filter operators, built-in ones if not provided
+  limits?: QueryLimits; // Query limits, checked once the tree is built or read
+}
+
+/**
+ * Checks and coerces every filter value of an expression against its target column,
+ * with the validator of its operator
+ * Paths that cannot be resolved are left as they are, so they are reported by field validation
+ * @param metadata entity metadata where expression is declared
+ * @param operators filter operator registry
+ * @param expression filter expression
+ * @returns a new expression with coerced values
+ */
+function coerceFilterExpression(
+  metadata: EntityMetadata,
+  operators: FilterOperatorRegistry,
+  expression: FilterExpression,
+): FilterExpression {
+  if ('and' in expression) {
+    return {
+      and: expression.and.map((e) =>
+        coerceFilterExpression(metadata, operators, e),
+      ),
+    };
+  }
+  if ('or' in expression) {
+    return {
+      or: expression.or.map((e) =>
+        coerceFilterExpression(metadata, operators, e),
+      ),
+    };
+  }
+  if ('not' in expression) {
+    return { not: coerceFilterExpression(metadata, operators, expression.not) };
+  }
+
+  const { validate, json } = getFilterOperator(operators, expression.operator);
+
+  const [columnPath, keys] = splitJsonPath(expression.field);
+  const column = findColumnByPath(metadata, columnPath);
+  if (!column) {
+    return expression;
+  }
+
+  // Values inside JSON documents have no column type to be coerced to
+  if (keys.length || json) {
+    assertJsonKeys(column, keys, expression.field);
+  }
+
+  if (!validate) {
+    return expression;
+  }
+
+  return {
+    ...expression,
+    value: validate(
+      expression.value,
+      keys.length ? undefined : column,
+      expression.field,
+    ),
+  };
+}
+
+/**
+ * Ensures a filter does not go to a relation pseudo-field (e.g. 'articles.$count'),
+ * which can only be selected or sorted by
+ * @param field filter field path
+ */
+function assertFilterField(field: string): void {
+  if (splitRelationAggregate(field)) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${field}' is a relation pseudo-field, so it can only be selected or sorted by`,
+    );
+  }
+}
+
+/**
+ * Turns search options into filters: an OR group matching term in any search field
+ * Fields of to-many relations are quantified, so they are checked with EXISTS subqueries
+ * @param metadata entity metadata where search is declared
+ * @param search search options
+ * @returns search filters, empty if term is blank
+ */
+function buildSearchFilters(
+  metadata: EntityMetadata,
+  { term, fields, mode = SearchMode.CONTAINS }: SearchOptions,
+): FilterExpression[] {
+  if (!fields?.length) {
+    throw new RepositoryInvalidArgumentException(
+      `Search in ${metadata.tableName} entity needs at least one field`,
+    );
+  }
+
+  if (!term?.trim().length) {
+    return [];
+  }
+
+  let operator: FilterOperator;
+  switch (mode) {
+    case SearchMode.CONTAINS:
+      operator = FilterOperator.CONTAINS_INSENSITIVE;
+      break;
+    case SearchMode.STARTS_WITH:
+      operator = FilterOperator.STARTS_WITH_INSENSITIVE;
+      break;
+    case SearchMode.FULL_TEXT:
+      operator = FilterOperator.MATCHES;
+      break;
+    default:
+      throw new RepositoryInvalidArgumentException(
+        `Unknown search mode '${mode}'`,
+      );
+  }
+
+  return [
+    {
+      or: fields.map((field) => {
+        const filter: FilterType = { field, operator, value: term.trim() };
+        const relation = splitRelationPath(metadata, field)?.[0];
+        if (relation?.isOneToMany || relation?.isManyToMany) {
+          filter.quantifier = FilterQuantifier.SOME;
+        }
+        return filter;
+      }),
+    },
+  ];
 }
 
 /**
@@ -23,32 +204,66 @@ export interface CommonSQLClauses {
  *
  * DO NOT TOUCH: please contact @deivi98 first
  *
- * @param dataSource TypeORM DataSource
+ * @param context TypeORM DataSource and repository configuration
  * @param table name of the database table for entity in this node
  * @param propertyPath name of the attribute at entity
  * @param findOptions DynamicRepository find options, repo can work differently depending on them
  * @param queryOptions Selections, filters, ordering...
  * @param exploredEntities param to remember what entities have been explored to prevent cycles
+ * @param requiredPaths paths that must be joined in this node regardless of selections (used by filter groups)
+ * @param requiredOnly whether this node is just joined for required paths, so nothing else is selected
  */
 function buildQueryTree(
-  dataSource: DataSource,
+  context: QueryTreeContext,
   table: string,
   propertyPath: string,
   findOptions: CommonFindOptions = { onlyEager: true, allowRecursively: [] },
   queryOptions: CommonQueryOptions = {},
   exploredEntities: string[] = [],
+  requiredPaths: string[] = [],
+  requiredOnly: boolean = false,
 ): QueryTree {
   let { selections, where, ordering } = queryOptions;
+  const { search } = queryOptions;
   const { onlyEager = true, allowRecursively = [] } = findOptions;
+  const { dataSource, policies, operators = BUILT_IN_OPERATORS } = context;
 
   // Get TypeORM entity metadata for table
   const metadata: EntityMetadata = dataSource.getMetadata(table);
 
+  // Search is just one more filter, so it is validated and joined as filters are
+  const searchFilters: FilterExpression[] = search
+    ? buildSearchFilters(metadata, search)
+    : [];
+  if (searchFilters.length) {
+    where = [...(where ?? []), ...searchFilters];
+  }
+
+  // Check every filter operator is registered
+  where?.flatMap(getFilterLeaves).forEach(({ field, operator }) => {
+    getFilterOperator(operators, operator);
+    assertFilterField(field);
+  });
+
+  // Check every requested path is exposed by entity policies
+  selections?.forEach((selection) =>
+    assertPathExposed(policies, metadata, selection, 'select'),
+  );
+  where
+    ?.flatMap(getFilterLeaves)
+    .forEach(({ field, operator }) =>
+      assertPathExposed(policies, metadata, field, 'filter', operator),
+    );
+  ordering?.forEach(({ field }) =>
+    assertPathExposed(policies, metadata, field, 'sort'),
+  );
+  const policy = getExposurePolicy(metadata, policies);
+
   // Mark table as explored to avoid recurrent or cyclical relations
   exploredEntities.push(metadata.tableName);
 
   // Tree node options and fields
-  const clauses: CommonSQLClauses = {};
+  const clauses: CommonSQLClauses = searchFilters.length ? { search } : {};
   const fields: QueryTree[] = [];
 
   // Auxiliary vars to build relation tree nodes recursively
@@ -56,6 +271,8 @@ function buildQueryTree(
   const relationTableNames: Record<string, string> = {};
   const relationsFilters: Record<string, FilterType[]> = {};
   const relationOrderBy: Record<string, OrderingBy[]> = {};
+  const relationsRequiredPaths: Record<string, string[]> = {};
+  const requiredOnlyRelations: Set<string> = new Set();
 
   // We need to extract and save the names of the tables of relations
   metadata.relations.forEach((relation) => {
@@ -63,23 +280,74 @@ function buildQueryTree(
       relation.inverseEntityMetadata.tableName;
   });
 
-  const tableFields = metadata.columns
-    .filter(
-      (columnMetadata: ColumnMetadata) =>
-        !(columnMetadata.propertyName in relationTableNames),
-    )
-    .map((columnMetadata: ColumnMetadata) => columnMetadata.propertyName);
+  // Regular fields are columns, including embedded ones by their path (e.g. 'address.city'),
+  // and relation-id properties (loaded by TypeORM itself along with their entity)
+  const tableFields = [
+    ...metadata.columns
+      .filter(
+        (columnMetadata: ColumnMetadata) =>
+          !(columnMetadata.propertyPath in relationTableNames),
+      )
+      .map((columnMetadata: ColumnMetadata) => columnMetadata.propertyPath),
+    ...metadata.relationIds.map((relationId) => relationId.propertyName),
+  ];
+
+  // Virtual fields are known fields too, but they are only selected when asked for
+  const virtualFields = getVirtualFieldNames(metadata);
+
+  /**
+   * Splits a path at the relation of this node it goes through, if any
+   * Embedded column paths (e.g. 'address.city') are not split, since they belong to this node
+   * @param path field path relative to this node (e.g. 'articles.price')
+   * @returns relation property path and path relative to relation node
+   */
+  const splitPath = (path: string): [string, string] | undefined => {
+    const split = splitRelationPath(metadata, path);
+    return split && [split[0].propertyPath, split[1]];
+  };
+
+  /**
+   * Ensures a field exists at this node level
+   * @param field field path relative to this node (e.g. 'address.city', 'payload->customer')
+   * @param isClause whether field is filtered or sorted by, so it must be stored in entity table
+   */
+  const assertTableField = (field: string, isClause: boolean): void => {
+    const [columnPath, keys] = splitJsonPath(field);
+    if (
+      !tableFields.includes(columnPath) &&
+      !virtualFields.includes(columnPath)
+    ) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${columnPath}' does not exist in ${metadata.tableName} entity`,
+      );
+    }
+
+    if (keys.length) {
+      assertJsonKeys(findColumnByPath(metadata, columnPath), keys, field);
+    }
+
+    if (isClause) {
+      getColumnPropertyPath(metadata, columnPath);
+    }
+  };
+
+  // Fields selected by wildcard or empty selections
+  const exposedTableFields = tableFields.filter((field: string) =>
+    isExposed(policy, 'select', field),
+  );
 
   let tableSelections: string[] = [];
 
-  if (selections?.length) {
+  if (requiredOnly) {
+    // Nothing is selected but required paths
+  } else if (selections?.length) {
     // If selections are provided, we just select those
 
     if (selections.includes('*')) {
       selections = selections.filter((selection: string) => selection !== '*'); // Remove wildcards
 
-      // Add all non-present table fields to selection
-      tableFields.forEach((field: string) => {
+      // Add all non-present (exposed) table fields to selection
+      exposedTableFields.forEach((field: string) => {
         if (!selections?.includes(field)) {
           selections?.push(field);
         }
@@ -87,22 +355,21 @@ function buildQueryTree(
     }
 
     selections.forEach((field) => {
-      const join = field.split('.');
-      if (join.length > 1) {
-        // If selection has a dot '.' it means it is a relation
-        // So add selection to map and save selection for relation tree node that is build later on
-        const relation = join[0];
-        const relationField = field.substring(
-          field.indexOf('.') + 1,
-          field.length,
-        );
-
-        // Check if selection exists
-        if (!(relation in relationTableNames)) {
-          throw new RepositoryInvalidArgumentException(
-            `Relation '${relation}' does not exist in ${metadata.tableName} entity`,
-          );
+      // Relation pseudo-fields (e.g. 'articles.$count') belong to this node,
+      // since they are computed by a subquery instead of joining their relation
+      if (findRelationAggregate(metadata, field)) {
+        if (!tableSelections.includes(field)) {
+          tableSelections.push(field);
         }
+        return;
+      }
+
+      const split = splitPath(field);
+      const embeddedFields = getEmbeddedColumnPaths(metadata, field);
+      if (split) {
+        // If selection goes through a relation
+        // add selection to map and save selection for relation tree node that is build later on
+        const [relation, relationField] = split;
 
         if (!(relation in relationsSelections)) {
           relationsSelections[relation] = [];
@@ -115,6 +382,18 @@ function buildQueryTree(
         // if (relationField !== '*') {
         //   relationsSelections[relation].push(relationField);
         // }
+      } else if (embeddedFields) {
+        // Embeddeds (e.g. 'address' or 'address.*') are expanded
+        // into their (exposed) columns, as wildcards are
+        embeddedFields
+          .filter(
+            (embeddedField: string) =>
+              exposedTableFields.includes(embeddedField) &&
+              !tableSelections.includes(embeddedField),
+          )
+          .forEach((embeddedField: string) =>
+            tableSelections.push(embeddedField),
+          );
       } else {
         if (field in relationTableNames) {
           // If it is a relation with no specified selection or wildcard, we select it entirely (including its relations)
@@ -123,13 +402,11 @@ function buildQueryTree(
           // If it is regular (this table level) selection, we add it to this table selections
 
           // Check if selection exists
-          if (!tableFields.includes(field)) {
-            throw new RepositoryInvalidArgumentException(
-              `Field '${field}' does not exist in ${metadata.tableName} entity`,
-            );
-          }
+          assertTableField(field, false);
 
-          tableSelections.push(field);
+          if (!tableSelections.includes(field)) {
+            tableSelections.push(field);
+          }
         }
       }
     });
@@ -137,9 +414,12 @@ function buildQueryTree(
     // If no selections are provided, we select all attributes AND relations
 
     // Select all attribute names that are NOT relations into this table selections
-    tableSelections = tableFields;
+    tableSelections = [...exposedTableFields];
 
-    let relations: RelationMetadata[] = metadata.relations;
+    let relations: RelationMetadata[] = metadata.relations.filter(
+      (relation: RelationMetadata) =>
+        isExposed(policy, 'select', relation.propertyPath),
+    );
     if (onlyEager) {
       // ONLY SELECT BY DEFAULT EAGER RELATIONS (TRUE BY DEFAULT)
       relations = relations.filter(
@@ -163,65 +443,144 @@ function buildQueryTree(
       });
   }
 
+  /**
+   * Ensures a (possibly dotted) path exists and is joined in this node,
+   * so that it can be referenced from clauses declared at this level
+   * @param path field path relative to this node (e.g. 'articles.price')
+   */
+  const requirePath = (path: string): void => {
+    const split = splitPath(path);
+    if (split) {
+      const [relation, relationPath] = split;
+
+      if (!(relation in relationsSelections)) {
+        // Relation is not selected, so we join it just for required paths
+        relationsSelections[relation] = [];
+        requiredOnlyRelations.add(relation);
+      }
+
+      // Relation node must ensure the path itself
+      if (!relationsRequiredPaths[relation]) {
+        relationsRequiredPaths[relation] = [];
+      }
+
+      relationsRequiredPaths[relation].push(relationPath);
+    } else {
+      // Check if field exists
+      assertTableField(path, true);
+
+      if (
+        !tableSelections.includes(path) &&
+        isExposed(policy, 'select', path)
+      ) {
+        tableSelections.push(path);
+      }
+    }
+  };
+
+  /**
+   * Ensures a quantified filter path starts with a to-many relation of this node
+   * and points to an existing field. Its relation is not joined, since it is
+   * checked with an EXISTS subquery
+   * @param filter quantified filter
+   */
+  const assertQuantifiedPath = ({ field, quantifier }: FilterType): void => {
+    const relation = splitRelationPath(metadata, field)?.[0];
+
+    if (!relation || !(relation.isOneToMany || relation.isManyToMany)) {
+      throw new RepositoryInvalidArgumentException(
+        `Filter quantifier '${quantifier}' expects a to-many relation path in ${metadata.tableName} entity, received '${field}'`,
+      );
+    }
+
+    if (!findColumnByPath(metadata, field)) {
+      throw new RepositoryInvalidArgumentException(
+        `Field '${field}' does not exist in ${metadata.tableName} entity`,
+      );
+    }
+  };
+
+  // Paths required by parent node clauses
+  requiredPaths.forEach(requirePath);
+
   // If filters are provided, as it is done with selections
   // we need to differenciate which level / relation are they
   if (where) {
     // This table level filters
-    const tableFilters: FilterType[] = [];
-
-    where.forEach((filter) => {
-      const field = filter.field;
-      const join = field.split('.');
-      if (join.length > 1) {
-        // If it is relation filter, we map it and add it to our
-        // map to process later
-        const relation = join[0];
-        const relationFilter: string = field.substring(
-          field.indexOf('.') + 1,
-          field.length,
-        );
+    const tableFilters: FilterExpression[] = [];
 
-        // Check if selection exists
-        if (!(relation in relationTableNames)) {
-          throw new RepositoryInvalidArgumentException(
-            `Relation '${relation}' does not exist in ${metadata.tableName} entity`,
+    where
+      // Values are checked against their columns while paths are still relative to this entity
+      .map((filter) => coerceFilterExpression(metadata, operators, filter))
+      .forEach((filter) => {
+        if (isFilterGroup(filter)) {
+          // Groups (and / or / not) are kept at this level as a whole,
+          // since their leaves may refer to different relations.
+          // We just make sure every leaf path is valid and joined
+          getFilterLeaves(filter).forEach((leaf) =>
+            leaf.quantifier
+              ? assertQuantifiedPath(leaf)
+              : requirePath(leaf.field),
           );
+          tableFilters.push(filter);
+          return;
         }
 
-        if (!relationsFilters[relation]) {
-          relationsFilters[relation] = [];
-        }
+        const field = filter.field;
+        const split = splitPath(field);
+        const relationMetadata = splitRelationPath(metadata, field)?.[0];
+        if (
+          filter.quantifier &&
+          !(relationMetadata?.isManyToOne || relationMetadata?.isOneToOne)
+        ) {
+          // Quantified filters stay at the entity declaring the to-many relation,
+          // so they do not cut down the relation collection when it is selected
+          assertQuantifiedPath(filter);
+          tableFilters.push(filter);
+        } else if (split) {
+          // If it is relation filter, we map it and add it to our
+          // map to process later
+          const [relation, relationFilter] = split;
 
-        relationsFilters[relation].push({
-          field: relationFilter,
-          operator: filter.operator,
-          value: filter.value,
-        });
+          if (!relationsFilters[relation]) {
+            relationsFilters[relation] = [];
+          }
 
-        // If filter is not selected
-        // if (!relationsSelections[relation]) {
-        //   relationsSelections[relation] = [relationFilter];
-        // } else if (!(relationFilter in relationsSelections[relation])) {
-        //   relationsSelections[relation].push(relationFilter);
-        // }
-      } else {
-        // If it is this table / entity filter level
-        // we add it to the array
+          relationsFilters[relation].push({
+            ...filter,
+            field: relationFilter,
+          });
 
-        // Check if filter exists
-        if (!tableFields.includes(field)) {
-          throw new RepositoryInvalidArgumentException(
-            `Field '${field}' does not exist in ${metadata.tableName} entity`,
-          );
-        }
+          // Quantified filters must reach the entity declaring the to-many relation,
+          // so to-one relations in their way are joined even if not selected
+          if (filter.quantifier && !(relation in relationsSelections)) {
+            relationsSelections[relation] = [];
+            requiredOnlyRelations.add(relation);
+          }
 
-        if (!tableSelections.includes(field)) {
-          tableSelections.push(field);
-        }
+          // If filter is not selected
+          // if (!relationsSelections[relation]) {
+          //   relationsSelections[relation] = [relationFilter];
+          // } else if (!(relationFilter in relationsSelections[relation])) {
+          //   relationsSelections[relation].push(relationFilter);
+          // }
+        } else {
+          // If it is this table / entity filter level
+          // we add it to the array
 
-        tableFilters.push(filter);
-      }
-    });
+          // Check if filter exists
+          assertTableField(field, true);
+
+          if (
+            !tableSelections.includes(field) &&
+            isExposed(policy, 'select', field)
+          ) {
+            tableSelections.push(field);
+          }
+
+          tableFilters.push(filter);
+        }
+      });
 
     // For each filter on this node level,
     // we map it into this node options
@@ -235,22 +594,21 @@ function buildQueryTree(
 
     ordering.forEach((orderBy) => {
       const field = orderBy.field;
-      const join = field.split('.');
-      if (join.length > 1) {
+      const split = splitPath(field);
+      if (findRelationAggregate(metadata, field)) {
+        // Relation pseudo-fields are sorted by at this level too
+        if (
+          !tableSelections.includes(field) &&
+          isExposed(policy, 'select', field)
+        ) {
+          tableSelections.push(field);
+        }
+
+        tableOrdering.push(orderBy);
+      } else if (split) {
         // If it is relation ordering, we map it and add it to our
         // map to process later
-        const relation = join[0];
-        const relationOrdering: string = field.substring(
-          field.indexOf('.') + 1,
-          field.length,
-        );
-
-        // Check if selection exists
-        if (!(relation in relationTableNames)) {
-          throw new RepositoryInvalidArgumentException(
-            `Relation '${relation}' does not exist in ${metadata.tableName} entity`,
-          );
-        }
+        const [relation, relationOrdering] = split;
 
         if (!relationOrderBy[relation]) {
           relationOrderBy[relation] = [];
@@ -271,13 +629,12 @@ function buildQueryTree(
         // we add it to the array
 
         // Check if filter exists
-        if (!tableFields.includes(field)) {
-          throw new RepositoryInvalidArgumentException(
-            `Field '${field}' does not exist in ${metadata.tableName} entity`,
-          );
-        }
+        assertTableField(field, true);
 
-        if (!tableSelections.includes(field)) {
+        if (
+          !tableSelections.includes(field) &&
+          isExposed(policy, 'select', field)
+        ) {
           tableSelections.push(field);
         }
 
@@ -290,18 +647,38 @@ function buildQueryTree(
     clauses.ordering = tableOrdering;
   }
 
+  // Nodes just joined for required paths still need some field to be selected,
+  // in case required ones are not exposed. Primary columns are needed anyway
+  if (requiredOnly && !tableSelections.length) {
+    tableSelections = metadata.primaryColumns.map(
+      (column: ColumnMetadata) => column.propertyPath,
+    );
+  }
+
   // For every regular selection (just normal attribute),
   // we add it to this node field list as a simple child node
   tableSelections.forEach((tableSelection) => {
-    fields.push(new QueryTree(tableSelection));
+    // Filters on the relation of a pseudo-field scope the related entities it computes,
+    // even if the relation itself is not selected (e.g. count of articles over 100)
+    const relation = findRelationAggregate(metadata, tableSelection)?.[0];
+    const scopeFilters = relation && relationsFilters[relation.propertyPath];
+    let fieldClauses: CommonSQLClauses = {};
+    if (relation && scopeFilters) {
+      scopeFilters.forEach(({ field }) =>
+        assertFieldPath(relation.inverseEntityMetadata, field),
+      );
+      fieldClauses = { where: scopeFilters };
+    }
+
+    fields.push(new QueryTree(tableSelection, fieldClauses));
   });
 
   // For each relation selected or found on this entity
   Object.keys(relationsSelections).forEach((relation: string) => {
     // Retrieve selections stored previously
-    let queryOptions: CommonQueryOptions = {
-      selections: relationsSelections[relation],
-    };
+    let queryOptions: CommonQueryOptions = requiredOnlyRelations.has(relation)
+      ? {}
+      : { selections: relationsSelections[relation] };
 
     // Retrieve orderBy options stored previously
     if (relationOrderBy[relation]) {
@@ -317,12 +694,14 @@ function buildQueryTree(
     // and adds it to fields list of this node
     fields.push(
       buildQueryTree(
-        dataSource,
+        context,
         relationTableNames[relation],
         relation,
         findOptions,
         queryOptions,
         exploredEntities,
+        relationsRequiredPaths[relation],
+        requiredOnlyRelations.has(relation),
       ),
     );
   });
@@ -331,6 +710,368 @@ function buildQueryTree(
   return new QueryTree(propertyPath, clauses, fields);
 }
 
+const EXPOSURE_ACTIONS: ExposureAction[] = ['select', 'filter', 'sort'];
+const ORDER_TYPES: string[] = Object.values(OrderType);
+const CLAUSE_NAMES: (keyof CommonSQLClauses)[] = [
+  'where',
+  'ordering',
+  'search',
+];
+
+/**
+ * Checks a query tree object node is an object (e.g. {} for fields)
+ * @param node query tree object node
+ * @param path node path, used in error messages
+ */
+function assertTreeObject(
+  node: unknown,
+  path: string,
+): asserts node is Record<string, any> {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    throw new RepositoryInvalidArgumentException(
+      `Query tree node '${path}' must be an object`,
+    );
+  }
+}
+
+/**
+ * Checks a field path exists and can be filtered or sorted by
+ * @param metadata entity metadata where path starts
+ * @param path field path (e.g. 'articles.price', 'payload->customer')
+ * @returns relations path goes through
+ */
+function assertFieldPath(
+  metadata: EntityMetadata,
+  path: string,
+): RelationMetadata[] {
+  const [columnPath, keys] = splitJsonPath(path);
+  const [relations, field] = splitEntityPath(metadata, columnPath);
+  const fieldMetadata: EntityMetadata = relations.length
+    ? relations[relations.length - 1].inverseEntityMetadata
+    : metadata;
+
+  const column = findColumnByPath(metadata, columnPath);
+  if (!column) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${columnPath}' does not exist in ${metadata.tableName} entity`,
+    );
+  }
+  if (keys.length) {
+    assertJsonKeys(column, keys, path);
+  }
+  getColumnPropertyPath(fieldMetadata, field);
+
+  return relations;
+}
+
+/**
+ * Checks a path referenced by node clauses exists, and that relations
+ * it goes through are joined as child nodes (unless quantified, which are not joined)
+ * Relation pseudo-fields of the node (e.g. 'articles.$count') need no relation node
+ * @param metadata entity metadata of the node
+ * @param fields child nodes of the node
+ * @param path field path relative to the node (e.g. 'articles.price', 'payload->customer')
+ * @param quantifier filter quantifier, if any
+ */
+function assertClausePath(
+  metadata: EntityMetadata,
+  fields: QueryTree[],
+  path: string,
+  quantifier?: FilterQuantifier,
+): void {
+  if (!quantifier && findRelationAggregate(metadata, path)) {
+    return;
+  }
+
+  const relations = assertFieldPath(metadata, path);
+
+  if (quantifier) {
+    if (!(relations[0]?.isOneToMany || relations[0]?.isManyToMany)) {
+      throw new RepositoryInvalidArgumentException(
+        `Filter quantifier '${quantifier}' expects a to-many relation path in ${metadata.tableName} entity, received '${path}'`,
+      );
+    }
+    return;
+  }
+
+  relations.reduce((nodes: QueryTree[], relation) => {
+    const node = nodes.find(({ name }) => name === relation.propertyPath);
+    if (!node) {
+      throw new RepositoryInvalidArgumentException(
+        `Relation '${relation.propertyPath}' of field '${path}' has no query tree node`,
+      );
+    }
+    return node.fields;
+  }, fields);
+}
+
+/**
+ * Reads a relation pseudo-field node from its object (e.g. 'articles.$count'),
+ * whose filters scope the related entities it computes
+ * @param context TypeORM DataSource and repository configuration
+ * @param metadata entity metadata of the node declaring the relation
+ * @param relation to-many relation
+ * @param name node name
+ * @param node query tree object node
+ * @param path node path, used in error messages
+ */
+function readRelationAggregateObject(
+  context: QueryTreeContext,
+  metadata: EntityMetadata,
+  relation: RelationMetadata,
+  name: string,
+  node: unknown,
+  path: string,
+): QueryTree {
+  assertTreeObject(node, path);
+  const { policies, operators = BUILT_IN_OPERATORS } = context;
+  const { __clauses = {}, ...fieldNodes } = node;
+  assertTreeObject(__clauses, path + '.__clauses');
+  const { where, ...unknownClauses } = __clauses as CommonSQLClauses;
+
+  if (Object.keys(fieldNodes).length || Object.keys(unknownClauses).length) {
+    throw new RepositoryInvalidArgumentException(
+      `Relation pseudo-field '${path}' can only have filters`,
+    );
+  }
+
+  assertPathExposed(policies, metadata, name, 'select');
+
+  if (where === undefined) {
+    return new QueryTree(name);
+  }
+  if (!Array.isArray(where)) {
+    throw new RepositoryInvalidArgumentException(
+      `Filters of query tree node '${path}' must be a list`,
+    );
+  }
+
+  const relationMetadata = relation.inverseEntityMetadata;
+  return new QueryTree(name, {
+    where: where.map((expression) => {
+      if (isFilterGroup(expression) || expression.quantifier) {
+        throw new RepositoryInvalidArgumentException(
+          `Filters of relation pseudo-field '${path}' cannot be groups nor quantified`,
+        );
+      }
+
+      getFilterOperator(operators, expression.operator);
+      assertFilterField(expression.field);
+      assertPathExposed(
+        policies,
+        metadata,
+        relation.propertyPath + '.' + expression.field,
+        'filter',
+        expression.operator,
+      );
+      assertFieldPath(relationMetadata, expression.field);
+      return coerceFilterExpression(relationMetadata, operators, expression);
+    }),
+  });
+}
+
+/**
+ * Reads a query tree node from its object (see QueryTree.toObject), validating
+ * fields and clauses against entity metadata and exposure policies
+ * @param context TypeORM DataSource and repository configuration
+ * @param metadata entity metadata of the node
+ * @param name node name
+ * @param node query tree object node
+ * @param path node path, used in error messages
+ */
+function readTreeObject(
+  context: QueryTreeContext,
+  metadata: EntityMetadata,
+  name: string,
+  node: unknown,
+  path: string,
+): QueryTree {
+  assertTreeObject(node, path || metadata.tableName);
+  const { policies, operators = BUILT_IN_OPERATORS } = context;
+  const { __clauses = {}, ...fieldNodes } = node;
+  assertTreeObject(__clauses, (path ? path + '.' : '') + '__clauses');
+  const { where, ordering, search, ...unknownClauses } =
+    __clauses as CommonSQLClauses;
+
+  if (Object.keys(unknownClauses).length || (path && search)) {
+    throw new RepositoryInvalidArgumentException(
+      `Unknown clauses in query tree node '${path || metadata.tableName}': ${[
+        ...Object.keys(unknownClauses),
+        ...(path && search ? ['search'] : []),
+      ].join(', ')}`,
+    );
+  }
+
+  const policy = getExposurePolicy(metadata, policies);
+  const fields: QueryTree[] = Object.entries(fieldNodes).map(
+    ([field, fieldNode]) => {
+      const fieldPath: string = path ? path + '.' + field : field;
+      const relation = metadata.findRelationWithPropertyPath(field);
+
+      if (relation) {
+        // Relations may be joined just to be filtered or sorted by
+        if (
+          !EXPOSURE_ACTIONS.some((action) => isExposed(policy, action, field))
+        ) {
+          assertPathExposed(policies, metadata, field, 'select');
+        }
+        return readTreeObject(
+          context,
+          relation.inverseEntityMetadata,
+          field,
+          fieldNode,
+          fieldPath,
+        );
+      }
+
+      const aggregate = findRelationAggregate(metadata, field);
+      if (aggregate) {
+        return readRelationAggregateObject(
+          context,
+          metadata,
+          aggregate[0],
+          field,
+          fieldNode,
+          fieldPath,
+        );
+      }
+
+      assertTreeObject(fieldNode, fieldPath);
+      if (Object.keys(fieldNode).length) {
+        throw new RepositoryInvalidArgumentException(
+          `Field '${field}' of ${metadata.tableName} entity is not a relation, so it cannot have fields`,
+        );
+      }
+
+      const [columnPath, keys] = splitJsonPath(field);
+      const column = findColumnByPath(metadata, columnPath);
+      if (
+        splitRelationPath(metadata, columnPath) ||
+        (!column && !findRelationId(metadata, columnPath))
+      ) {
+        throw new RepositoryInvalidArgumentException(
+          `Field '${columnPath}' does not exist in ${metadata.tableName} entity`,
+        );
+      }
+      if (keys.length) {
+        assertJsonKeys(column, keys, field);
+      }
+
+      // Primary columns are selected anyway
+      if (!column?.isPrimary) {
+        assertPathExposed(policies, metadata, field, 'select');
+      }
+
+      return new QueryTree(field);
+    },
+  );
+
+  const clauses: CommonSQLClauses = {};
+
+  if (where !== undefined) {
+    if (!Array.isArray(where)) {
+      throw new RepositoryInvalidArgumentException(
+        `Filters of query tree node '${path || metadata.tableName}' must be a list`,
+      );
+    }
+
+    clauses.where = where.map((expression) => {
+      getFilterLeaves(expression).forEach(({ field, operator, quantifier }) => {
+        getFilterOperator(operators, operator);
+        assertFilterField(field);
+        assertPathExposed(policies, metadata, field, 'filter', operator);
+        assertClausePath(metadata, fields, field, quantifier);
+      });
+      return coerceFilterExpression(metadata, operators, expression);
+    });
+  }
+
+  if (ordering !== undefined) {
+    if (!Array.isArray(ordering)) {
+      throw new RepositoryInvalidArgumentException(
+        `Ordering of query tree node '${path || metadata.tableName}' must be a list`,
+      );
+    }
+
+    clauses.ordering = ordering.map(({ field, type }) => {
+      if (!ORDER_TYPES.includes(type)) {
+        throw new RepositoryInvalidArgumentException(
+          `Invalid ordering type '${type}' for field '${field}'`,
+        );
+      }
+      assertPathExposed(policies, metadata, field, 'sort');
+      assertClausePath(metadata, fields, field);
+      return { field, type };
+    });
+  }
+
+  if (search) {
+    // Search filters are already part of where clauses, fields are just checked
+    assertTreeObject(search, '__clauses.search');
+    if (!Array.isArray(search.fields)) {
+      throw new RepositoryInvalidArgumentException(
+        'Search fields of query tree must be a list',
+      );
+    }
+    search.fields.forEach((field) => {
+      if (!findColumnByPath(metadata, splitJsonPath(field)[0])) {
+        throw new RepositoryInvalidArgumentException(
+          `Field '${field}' does not exist in ${metadata.tableName} entity`,
+        );
+      }
+    });
+    clauses.search = { ...search };
+  }
+
+  return new QueryTree(name, clauses, fields);
+}
+
+/**
+ * Checks if a clause path goes through a node path
+ * @param path clause path relative to a node (e.g. 'articles.price', 'payload->customer')
+ * @param nodePath node path relative to the same node (e.g. 'articles')
+ */
+function isPathWithin(path: string, nodePath: string): boolean {
+  return (
+    path === nodePath ||
+    path.startsWith(nodePath + '.') ||
+    path.startsWith(nodePath + JSON_PATH_SEPARATOR)
+  );
+}
+
+/**
+ * Removes clauses referencing a node path
+ * @param clauses node clauses
+ * @param nodePath node path relative to clauses node
+ */
+function pruneClauses(
+  clauses: CommonSQLClauses,
+  nodePath: string,
+): CommonSQLClauses {
+  const { where, ordering, search } = clauses;
+  const pruned: CommonSQLClauses = {};
+
+  if (where) {
+    // Whole expressions are removed, since removing a leaf changes what a group means
+    pruned.where = where.filter(
+      (expression) =>
+        !getFilterLeaves(expression).some(({ field }) =>
+          isPathWithin(field, nodePath),
+        ),
+    );
+  }
+  if (ordering) {
+    pruned.ordering = ordering.filter(
+      ({ field }) => !isPathWithin(field, nodePath),
+    );
+  }
+  if (search && !search.fields.some((field) => isPathWithin(field, nodePath))) {
+    pruned.search = search;
+  }
+
+  return pruned;
+}
+
 /**
  * QueryTree
  * Represents query with a tree, each node with its arguments and options.
@@ -354,25 +1095,74 @@ export class QueryTree {
 
   /**
    * Creates the tree
-   * @param dataSource TypeORM data source
+   * @param dataSource TypeORM data source, or query tree context including repository configuration
    * @param entityClass Entity to find (e.g. 'Order')
    * @param findOptions DynamicRepository find options, repo can work differently depending on them
    * @param queryOptions Selections, filters, ordering...
    * @returns a recursive query tree
    */
-  public static createTree<T>(
-    dataSource: DataSource,
+  public static createTree<T extends ObjectLiteral = ObjectLiteral>(
+    dataSource: DataSource | QueryTreeContext,
     ...args: FindParams<T>
   ): QueryTree {
     const [entityClass, queryOptions, findOptions] = args;
+    const context: QueryTreeContext =
+      dataSource instanceof DataSource ? { dataSource } : dataSource;
 
-    return buildQueryTree(
-      dataSource,
+    const tree: QueryTree = buildQueryTree(
+      context,
       entityClass as string,
       entityClass as string,
       findOptions,
-      queryOptions,
+      // Typed paths are strings, checked against entity metadata from here on
+      queryOptions as unknown as CommonQueryOptions,
     );
+    if (context.limits) {
+      assertQueryLimits(
+        tree,
+        context.dataSource.getMetadata(entityClass),
+        context.limits,
+      );
+    }
+
+    return tree;
+  }
+
+  /**
+   * Reads a tree from its object (see toObject), e.g. a cached or stored one.
+   * Fields and clauses are validated against entity metadata, exposure policies and query limits,
+   * and filter values are coerced again (e.g. dates stored as strings)
+   * @param dataSource TypeORM data source, or query tree context including repository configuration
+   * @param entityClass Entity the tree finds (e.g. 'Order')
+   * @param object tree object
+   * @throws RepositoryInvalidArgumentException if tree does not match entity
+   * @throws RepositoryForbiddenFieldException if tree reaches fields not exposed by policies
+   * @throws RepositoryQueryLimitException if tree goes beyond context query limits
+   */
+  public static fromObject<T>(
+    dataSource: DataSource | QueryTreeContext,
+    entityClass: FindParams<T>[0],
+    object: Record<string, any>,
+  ): QueryTree {
+    const context: QueryTreeContext =
+      dataSource instanceof DataSource ? { dataSource } : dataSource;
+
+    const tree: QueryTree = readTreeObject(
+      context,
+      context.dataSource.getMetadata(entityClass),
+      entityClass as string,
+      object,
+      '',
+    );
+    if (context.limits) {
+      assertQueryLimits(
+        tree,
+        context.dataSource.getMetadata(entityClass),
+        context.limits,
+      );
+    }
+
+    return tree;
   }
 
   /**
@@ -426,4 +1216,167 @@ export class QueryTree {
 
     return obj;
   }
+
+  /**
+   * Copies the entire tree, so the copy can be modified (e.g. by hooks)
+   */
+  public clone(): QueryTree {
+    const { where, ordering, search } = this.clauses;
+
+    return new QueryTree(
+      this.name,
+      {
+        ...(where && { where: [...where] }),
+        ...(ordering && { ordering: [...ordering] }),
+        ...(search && { search: { ...search } }),
+      },
+      this.fields.map((field) => field.clone()),
+    );
+  }
+
+  /**
+   * Merges another tree of the same entity into a new one: fields of both trees
+   * are selected, filters of both must match and ordering of this tree goes first
+   * @param tree tree to merge
+   */
+  public merge(tree: QueryTree): QueryTree {
+    const where: FilterExpression[] = [...(this.clauses.where ?? [])];
+    tree.clauses.where?.forEach((expression) => {
+      if (
+        !where.some(
+          (thisExpression) =>
+            JSON.stringify(thisExpression) === JSON.stringify(expression),
+        )
+      ) {
+        where.push(expression);
+      }
+    });
+
+    const ordering: OrderingBy[] = [
+      ...(this.clauses.ordering ?? []),
+      ...(tree.clauses.ordering ?? []).filter(
+        ({ field }) =>
+          !this.clauses.ordering?.some((orderBy) => orderBy.field === field),
+      ),
+    ];
+
+    const search = this.clauses.search ?? tree.clauses.search;
+
+    const fields: QueryTree[] = [
+      ...this.fields.map((field) => {
+        const treeField: QueryTree | undefined = tree.getField(field.name);
+        return treeField ? field.merge(treeField) : field.clone();
+      }),
+      ...tree.fields
+        .filter((treeField) => !this.getField(treeField.name))
+        .map((treeField) => treeField.clone()),
+    ];
+
+    return new QueryTree(
+      this.name,
+      {
+        ...(where.length && { where }),
+        ...(ordering.length && { ordering }),
+        ...(search && { search: { ...search } }),
+      },
+      fields,
+    );
+  }
+
+  /**
+   * Returns a new tree without a node (e.g. 'articles.tags' or 'articles.sku').
+   * Clauses referencing it are removed too, filter groups as a whole
+   * @param path node path
+   * @throws RepositoryInvalidArgumentException if path is not in the tree
+   */
+  public prune(path: string): QueryTree {
+    // Field names may have dots themselves (e.g. embedded 'address.city')
+    const field: QueryTree | undefined = this.fields.find(
+      (thisField) =>
+        thisField.name === path ||
+        (thisField.isRelation() && path.startsWith(thisField.name + '.')),
+    );
+    if (!path || !field) {
+      throw new RepositoryInvalidArgumentException(
+        `Path '${path}' is not in query tree`,
+      );
+    }
+
+    const prunedField: QueryTree | undefined =
+      field.name === path
+        ? undefined
+        : field.prune(path.substring(field.name.length + 1));
+
+    // Relations left without fields are pruned as a whole
+    if (!prunedField?.fields.length) {
+      return new QueryTree(
+        this.name,
+        pruneClauses(this.clauses, field.name),
+        this.fields
+          .filter((thisField) => thisField !== field)
+          .map((thisField) => thisField.clone()),
+      );
+    }
+
+    return new QueryTree(
+      this.name,
+      pruneClauses(this.clauses, path),
+      this.fields.map((thisField) =>
+        thisField === field ? prunedField : thisField.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Lists differences with another tree: added and removed nodes, and nodes with different clauses
+   * @param tree tree to compare with
+   * @param path path of this node, empty for the root one
+   */
+  public diff(tree: QueryTree, path: string = ''): QueryTreeDiff {
+    const diff: QueryTreeDiff = { added: [], removed: [], changed: [] };
+    const fieldPath = (name: string): string =>
+      path ? path + '.' + name : name;
+
+    // Empty clause lists (e.g. where of a node whose filters went to relations) are no clauses
+    const clauseKey = (
+      clauses: CommonSQLClauses,
+      clause: keyof CommonSQLClauses,
+    ): string | undefined => {
+      const value = clauses[clause];
+      return Array.isArray(value) && !value.length
+        ? undefined
+        : JSON.stringify(value);
+    };
+
+    if (
+      CLAUSE_NAMES.some(
+        (clause) =>
+          clauseKey(this.clauses, clause) !== clauseKey(tree.clauses, clause),
+      )
+    ) {
+      diff.changed.push(path);
+    }
+
+    this.fields.forEach((field) => {
+      const treeField: QueryTree | undefined = tree.getField(field.name);
+      if (!treeField) {
+        diff.removed.push(fieldPath(field.name));
+        return;
+      }
+
+      const fieldDiff: QueryTreeDiff = field.diff(
+        treeField,
+        fieldPath(field.name),
+      );
+      diff.added.push(...fieldDiff.added);
+      diff.removed.push(...fieldDiff.removed);
+      diff.changed.push(...fieldDiff.changed);
+    });
+
+    tree.fields
+      .filter((treeField) => !this.getField(treeField.name))
+      .forEach((treeField) => diff.added.push(fieldPath(treeField.name)));
+
+    return diff;
+  }
 }
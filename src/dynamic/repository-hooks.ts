@@ -0,0 +1,122 @@
+import {
+  EntityMetadata,
+  ObjectLiteral,
+  QueryBuilder,
+  WhereExpressionBuilder,
+} from 'typeorm';
+
+import { QueryTree } from './query-tree';
+
+/**
+ * Receives what DynamicRepository does (query trees, SQL queries, results...)
+ */
+export interface RepositoryLogger {
+  /**
+   * @param message what is logged (e.g. 'find SQL query')
+   * @param details structured details (e.g. { sql, parameters })
+   */
+  debug(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Logger used when DynamicRepository debug flag is set and no logger is provided
+ */
+export const CONSOLE_LOGGER: RepositoryLogger = {
+  debug: (message, details = {}) => {
+    console.log(message + ':');
+    Object.values(details).forEach((detail) =>
+      console.dir(detail, { depth: null }),
+    );
+  },
+};
+
+/**
+ * DynamicRepository methods running queries
+ */
+export type QueryOperation =
+  | 'find'
+  | 'findAndCount'
+  | 'findOne'
+  | 'aggregate'
+  | 'explain'
+  | 'updateWhere'
+  | 'deleteWhere'
+  | 'softDeleteWhere';
+
+export interface QueryContext {
+  operation: QueryOperation;
+  metadata: EntityMetadata; // Entity the operation is about
+}
+
+export interface QueryExecutionContext extends QueryContext {
+  // Which query of the operation runs (e.g. 'entities', 'count', 'metrics', 'articles relation')
+  query: string;
+}
+
+export interface QueryExecution extends QueryExecutionContext {
+  sql: string;
+  params: unknown[];
+  durationMs: number;
+  rowCount: number; // Rows returned, or affected by bulk operations
+  error?: unknown; // Set if query failed, which is thrown afterwards
+}
+
+/**
+ * Query builder going to be run: a select, update or delete one
+ */
+export type ExecutableQueryBuilder<T extends ObjectLiteral> = QueryBuilder<T> &
+  WhereExpressionBuilder;
+
+/**
+ * Lifecycle hooks of DynamicRepository queries. They may be async
+ */
+export interface RepositoryHooks {
+  /**
+   * Called once query tree is built and checked against query limits and exposure policies,
+   * before SQL is generated. It may modify the tree (e.g. adding tenant filters to its clauses)
+   * or return another one. Limits are checked again afterwards, but exposure policies are not
+   * applied again to the tree it modifies or returns
+   */
+  beforeBuild?: (
+    tree: QueryTree,
+    context: QueryContext,
+  ) => QueryTree | void | Promise<QueryTree | void>;
+  /**
+   * Called before every SQL query runs. It may modify the query builder
+   * (e.g. qb.andWhere(...) or qb.comment(...))
+   */
+  beforeExecute?: <T extends ObjectLiteral>(
+    qb: ExecutableQueryBuilder<T>,
+    context: QueryExecutionContext,
+  ) => void | Promise<void>;
+  /**
+   * Called after every SQL query runs, even if it fails
+   */
+  afterExecute?: (execution: QueryExecution) => void | Promise<void>;
+}
+
+/**
+ * Runs a query through lifecycle hooks and logs
+ * @param qb query builder to run
+ * @param context operation and query being run
+ * @param run runs the query builder
+ * @param getRowCount returns how many rows query returned or affected
+ */
+export type QueryExecutor = <T extends ObjectLiteral, R>(
+  qb: ExecutableQueryBuilder<T>,
+  context: QueryExecutionContext,
+  run: () => Promise<R>,
+  getRowCount?: (result: R) => number,
+) => Promise<R>;
+
+/**
+ * Counts rows of a query result: entities, raw rows or a single entity
+ * @param result query result
+ */
+export function countResultRows(result: unknown): number {
+  if (Array.isArray(result)) {
+    return result.length;
+  }
+
+  return result === null || result === undefined ? 0 : 1;
+}
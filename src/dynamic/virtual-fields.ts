@@ -0,0 +1,189 @@
+import {
+  ColumnType,
+  EntityMetadata,
+  ObjectLiteral,
+  ObjectType,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+
+/**
+ * Builds the SQL expression of a virtual field
+ * @param column returns the SQL column of an entity field path, alias included (e.g. 'address.city')
+ * @param driver TypeORM driver type (e.g. 'postgres'), to write driver specific SQL
+ */
+export type VirtualFieldExpression = (
+  column: (path: string) => string,
+  driver: string,
+) => string;
+
+/**
+ * Computed field of an entity, defined by a SQL expression over its columns
+ * e.g. { expression: (column) => `${column('price')} * ${column('quantity')}`, type: 'int' }
+ */
+export interface VirtualFieldDefinition {
+  expression: VirtualFieldExpression;
+  /**
+   * Column type of field values (e.g. 'int', 'boolean'). Filter values are checked
+   * and selected values are hydrated by it, otherwise they are used as they come
+   */
+  type?: ColumnType;
+}
+
+// Virtual fields by entity class, entity name or table name
+const registeredFields: Map<
+  ObjectType<unknown> | string,
+  Map<string, VirtualFieldDefinition>
+> = new Map();
+
+// Virtual property columns built for each entity, by field definition
+const virtualColumns: WeakMap<
+  EntityMetadata,
+  WeakMap<VirtualFieldDefinition, ColumnMetadata>
+> = new WeakMap();
+
+/**
+ * Registers a virtual field of an entity. It can be selected, filtered and sorted like
+ * any column, but it is never selected by wildcard (*) or empty selections
+ * @param entity entity class, entity name or table name
+ * @param name field name, the entity property its values are set into
+ * @param definition field definition
+ */
+export function registerVirtualField(
+  entity: ObjectType<unknown> | string,
+  name: string,
+  definition: VirtualFieldDefinition,
+): void {
+  const fields = registeredFields.get(entity) ?? new Map();
+  fields.set(name, definition);
+  registeredFields.set(entity, fields);
+}
+
+/**
+ * Property decorator to declare a virtual field (see registerVirtualField)
+ * @param definition field definition
+ */
+export function VirtualField(
+  definition: VirtualFieldDefinition,
+): PropertyDecorator {
+  return (target, propertyKey) => {
+    registerVirtualField(
+      target.constructor as ObjectType<unknown>,
+      String(propertyKey),
+      definition,
+    );
+  };
+}
+
+/**
+ * Returns the virtual fields of an entity, inherited ones included
+ * @param metadata entity metadata
+ * @throws RepositoryInvalidArgumentException if a field is named after a column or relation
+ */
+function getVirtualFields(
+  metadata: EntityMetadata,
+): Map<string, VirtualFieldDefinition> {
+  const fields: Map<string, VirtualFieldDefinition> = new Map();
+  [
+    ...[...metadata.inheritanceTree].reverse(),
+    metadata.name,
+    metadata.tableName,
+  ].forEach((entity) =>
+    registeredFields
+      .get(entity as ObjectType<unknown> | string)
+      ?.forEach((definition, name) => fields.set(name, definition)),
+  );
+
+  fields.forEach((_definition, name) => {
+    if (
+      metadata.findColumnWithPropertyPath(name) ||
+      metadata.findRelationWithPropertyPath(name) ||
+      metadata.relationIds.some(
+        (relationId) => relationId.propertyName === name,
+      )
+    ) {
+      throw new RepositoryInvalidArgumentException(
+        `Virtual field '${name}' of ${metadata.tableName} entity clashes with one of its columns or relations`,
+      );
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Returns the names of the virtual fields of an entity
+ * @param metadata entity metadata
+ */
+export function getVirtualFieldNames(metadata: EntityMetadata): string[] {
+  return [...getVirtualFields(metadata).keys()];
+}
+
+/**
+ * Finds the virtual property column of an entity virtual field. Its query
+ * builds the field expression for a given (escaped) entity alias
+ * @param metadata entity metadata
+ * @param name field name
+ * @returns column metadata, or undefined if entity has no such virtual field
+ */
+export function findVirtualFieldColumn(
+  metadata: EntityMetadata,
+  name: string,
+): ColumnMetadata | undefined {
+  const definition = getVirtualFields(metadata).get(name);
+  if (!definition) {
+    return undefined;
+  }
+
+  const columns = virtualColumns.get(metadata) ?? new WeakMap();
+  virtualColumns.set(metadata, columns);
+
+  let column = columns.get(definition);
+  if (!column) {
+    const { connection } = metadata;
+    column = new ColumnMetadata({
+      connection,
+      entityMetadata: metadata,
+      args: {
+        target: metadata.target,
+        propertyName: name,
+        mode: 'virtual-property',
+        options: {
+          type: definition.type,
+          nullable: true,
+          query: (alias) =>
+            definition.expression((path) => {
+              const sqlColumn = metadata.findColumnWithPropertyPath(path);
+              if (!sqlColumn || sqlColumn.isVirtualProperty) {
+                throw new RepositoryInvalidArgumentException(
+                  `Virtual field '${name}' of ${metadata.tableName} entity uses '${path}', which is not one of its columns`,
+                );
+              }
+
+              return `${alias}.${connection.driver.escape(sqlColumn.databaseName)}`;
+            }, connection.driver.options.type),
+        },
+      },
+    }).build(connection);
+    columns.set(definition, column);
+  }
+
+  return column;
+}
+
+/**
+ * Builds the SQL expression of a virtual field, for an entity joined with given alias
+ * @param qb query builder
+ * @param alias entity alias
+ * @param column virtual field column (see findVirtualFieldColumn)
+ */
+export function buildVirtualFieldExpression<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  alias: string,
+  column: ColumnMetadata,
+): string {
+  const query = column.query as (alias: string) => string;
+  return `(${query(qb.escape(alias))})`;
+}
@@ -1,3 +1,4 @@
 export * from './dynamic';
+export * from './policy';
 export * from './query';
 export * from './repository.interface';
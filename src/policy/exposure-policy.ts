@@ -0,0 +1,186 @@
+import { EntityMetadata, ObjectType } from 'typeorm';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import {
+  getEmbeddedColumnPaths,
+  isRelationAggregate,
+  splitEntityPath,
+  splitRelationAggregate,
+} from '../dynamic/entity-paths';
+import { splitJsonPath } from '../dynamic/json-paths';
+import { FilterOperatorName } from '../query/query-options.interface';
+
+/**
+ * Declares which fields and relations of an entity can be used by queries.
+ * Names are entity property paths at this entity level (e.g. 'id', 'articles', 'address.city'),
+ * nested entities are ruled by their own policy. Lists not provided allow everything
+ */
+export interface EntityExposurePolicy {
+  /**
+   * Fields and relations that can be selected.
+   * Hidden ones are dropped from wildcard (*) and empty selections
+   */
+  selectable?: string[];
+  /**
+   * Fields and relations that can be filtered, and with which operators (true for any).
+   * Operators do not apply to relations, they just need to be present to filter through them
+   */
+  filterable?: Record<string, FilterOperatorName[] | true>;
+  /**
+   * Fields and relations that can be sorted
+   */
+  sortable?: string[];
+}
+
+/**
+ * Policies by entity, keyed by entity class, entity name or table name
+ */
+export type ExposurePolicyRegistry = Map<
+  ObjectType<unknown> | string,
+  EntityExposurePolicy
+>;
+
+export type ExposureAction = 'select' | 'filter' | 'sort';
+
+/**
+ * Thrown when a query uses a field or relation its entity policy does not expose.
+ * An invalid argument, so it is handled as any other invalid query
+ */
+export class RepositoryForbiddenFieldException extends RepositoryInvalidArgumentException {
+  constructor(
+    public readonly path: string,
+    public readonly action: ExposureAction,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'RepositoryForbiddenFieldException';
+  }
+}
+
+// Policies declared with @ExposurePolicy decorator
+const decoratedPolicies: Map<unknown, EntityExposurePolicy> = new Map();
+
+/**
+ * Class decorator to declare entity exposure policy.
+ * Policies passed to DynamicRepository take precedence over decorated ones
+ * @param policy entity exposure policy
+ */
+export function ExposurePolicy(policy: EntityExposurePolicy): ClassDecorator {
+  return (target) => {
+    decoratedPolicies.set(target, policy);
+  };
+}
+
+/**
+ * Returns the exposure policy of an entity, if any
+ * @param metadata entity metadata
+ * @param registry policies passed to DynamicRepository
+ */
+export function getExposurePolicy(
+  metadata: EntityMetadata,
+  registry?: ExposurePolicyRegistry,
+): EntityExposurePolicy | undefined {
+  return (
+    (typeof metadata.target === 'function'
+      ? registry?.get(metadata.target)
+      : undefined) ??
+    registry?.get(metadata.name) ??
+    registry?.get(metadata.tableName) ??
+    decoratedPolicies.get(metadata.target)
+  );
+}
+
+/**
+ * Checks if policy allows an action over a field or relation
+ * Paths inside JSON columns (e.g. 'payload->customer') are ruled by their column,
+ * and relation pseudo-fields (e.g. 'articles.$count') by their relation
+ * @param policy entity exposure policy
+ * @param action select, filter or sort
+ * @param path field or relation name
+ * @param operator filter operator, if filtering a field
+ */
+export function isExposed(
+  policy: EntityExposurePolicy | undefined,
+  action: ExposureAction,
+  path: string,
+  operator?: FilterOperatorName,
+): boolean {
+  const [field] = splitJsonPath(splitRelationAggregate(path)?.[0] ?? path);
+
+  switch (action) {
+    case 'select':
+      return !policy?.selectable || policy.selectable.includes(field);
+    case 'sort':
+      return !policy?.sortable || policy.sortable.includes(field);
+    default: {
+      if (!policy?.filterable) {
+        return true;
+      }
+
+      const operators = policy.filterable[field];
+      return (
+        !!operators &&
+        (operators === true || !operator || operators.includes(operator))
+      );
+    }
+  }
+}
+
+/**
+ * Checks every step of a (possibly dotted) path is exposed for an action,
+ * following relations through their own entity policies.
+ * Paths that cannot be resolved are ignored, so they are reported by field validation
+ * @param registry policies passed to DynamicRepository
+ * @param metadata entity metadata where path starts
+ * @param path field path (e.g. 'articles.price')
+ * @param action select, filter or sort
+ * @param operator filter operator, if filtering
+ * @throws RepositoryForbiddenFieldException if any step is not exposed
+ */
+export function assertPathExposed(
+  registry: ExposurePolicyRegistry | undefined,
+  metadata: EntityMetadata,
+  path: string,
+  action: ExposureAction,
+  operator?: FilterOperatorName,
+): void {
+  const [relations, field] = splitEntityPath(metadata, path);
+  let entityMetadata: EntityMetadata = metadata;
+
+  const assertExposed = (name: string, isLast: boolean): void => {
+    const policy = getExposurePolicy(entityMetadata, registry);
+    if (!isExposed(policy, action, name, isLast ? operator : undefined)) {
+      const verb =
+        action === 'select'
+          ? 'selected'
+          : action === 'sort'
+            ? 'sorted'
+            : operator && isLast
+              ? `filtered with operator '${operator}'`
+              : 'filtered';
+
+      throw new RepositoryForbiddenFieldException(
+        path,
+        action,
+        `Field '${name}' of ${entityMetadata.tableName} entity cannot be ${verb} (in '${path}')`,
+      );
+    }
+  };
+
+  relations.forEach((relation) => {
+    assertExposed(relation.propertyPath, false);
+    entityMetadata = relation.inverseEntityMetadata;
+  });
+
+  // Wildcards and embeddeds are expanded just with exposed fields,
+  // and relation pseudo-fields are ruled by their (already checked) relation
+  if (
+    field === '*' ||
+    isRelationAggregate(field) ||
+    getEmbeddedColumnPaths(entityMetadata, field)
+  ) {
+    return;
+  }
+
+  assertExposed(field, true);
+}
@@ -0,0 +1,2 @@
+export * from './exposure-policy';
+export * from './query-limits';
@@ -0,0 +1,200 @@
+import { EntityMetadata } from 'typeorm';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import {
+  splitEntityPath,
+  splitRelationAggregate,
+} from '../dynamic/entity-paths';
+import { CommonSQLClauses, QueryTree } from '../dynamic/query-tree';
+import { getFilterLeaves } from '../query/query-options.interface';
+
+/**
+ * Limits queries must respect, so they can be safely exposed to untrusted clients.
+ * Limits not provided are not checked
+ */
+export interface QueryLimits {
+  /**
+   * Maximum relation depth (e.g. 'articles.replacement' has depth 2)
+   */
+  maxDepth?: number;
+  /**
+   * Maximum number of joined relations, at any depth. Relations reached by subqueries
+   * (quantified filters, pseudo-fields such as 'articles.$count') count too
+   */
+  maxJoins?: number;
+  /**
+   * Maximum number of filters, at any depth (every leaf of filter groups counts,
+   * as well as filters scoping pseudo-fields)
+   */
+  maxFilters?: number;
+  /**
+   * Maximum number of orderings, at any depth
+   */
+  maxOrderings?: number;
+  /**
+   * Maximum page size. When set, paginated finds must provide take
+   */
+  maxTake?: number;
+}
+
+export type QueryLimit = keyof QueryLimits;
+
+/**
+ * Thrown when a query goes beyond any of the query limits
+ */
+export class RepositoryQueryLimitException extends RepositoryInvalidArgumentException {
+  constructor(
+    public readonly limit: QueryLimit,
+    public readonly path: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'RepositoryQueryLimitException';
+  }
+}
+
+/**
+ * Checks a query tree respects query limits, before any SQL is generated
+ * @param tree QueryTree
+ * @param metadata metadata of the entity tree finds, to tell relations apart from
+ * embedded columns and JSON keys in paths
+ * @param limits query limits
+ * @throws RepositoryQueryLimitException naming the offending path
+ */
+export function assertQueryLimits(
+  tree: QueryTree,
+  metadata: EntityMetadata,
+  limits: QueryLimits,
+): void {
+  const { maxDepth, maxJoins, maxFilters, maxOrderings } = limits;
+  let joins: number = 0;
+  let filters: number = 0;
+  let orderings: number = 0;
+
+  const checkJoin = (path: string[]): void => {
+    const relationPath: string = path.join('.');
+    joins++;
+
+    if (maxDepth !== undefined && path.length > maxDepth) {
+      throw new RepositoryQueryLimitException(
+        'maxDepth',
+        relationPath,
+        `Relation '${relationPath}' goes beyond maximum relation depth of ${maxDepth}`,
+      );
+    }
+
+    if (maxJoins !== undefined && joins > maxJoins) {
+      throw new RepositoryQueryLimitException(
+        'maxJoins',
+        relationPath,
+        `Relation '${relationPath}' goes beyond maximum of ${maxJoins} joined relations`,
+      );
+    }
+  };
+
+  const checkFilters = (
+    where: CommonSQLClauses['where'],
+    path: string[],
+    metadata: EntityMetadata,
+    inSubquery: boolean,
+  ): void =>
+    where?.flatMap(getFilterLeaves).forEach(({ field, quantifier }) => {
+      const filterPath: string = [...path, field].join('.');
+      filters++;
+
+      // Relations of quantified and subquery filters are joined inside their subquery
+      if (quantifier || inSubquery) {
+        const relationPath: string[] = splitEntityPath(metadata, field)[0].map(
+          (relation) => relation.propertyPath,
+        );
+        relationPath.forEach((_, index) =>
+          checkJoin([...path, ...relationPath.slice(0, index + 1)]),
+        );
+      }
+
+      if (maxFilters !== undefined && filters > maxFilters) {
+        throw new RepositoryQueryLimitException(
+          'maxFilters',
+          filterPath,
+          `Filter on '${filterPath}' goes beyond maximum of ${maxFilters} filters`,
+        );
+      }
+    });
+
+  const checkNode = (
+    node: QueryTree,
+    path: string[],
+    metadata: EntityMetadata,
+  ): void => {
+    const fieldPath = (field: string): string => [...path, field].join('.');
+
+    if (path.length) {
+      checkJoin(path);
+    }
+
+    checkFilters(node.clauses.where, path, metadata, false);
+
+    node.clauses.ordering?.forEach(({ field }) => {
+      orderings++;
+
+      if (maxOrderings !== undefined && orderings > maxOrderings) {
+        throw new RepositoryQueryLimitException(
+          'maxOrderings',
+          fieldPath(field),
+          `Ordering by '${fieldPath(field)}' goes beyond maximum of ${maxOrderings} orderings`,
+        );
+      }
+    });
+
+    node.fields.forEach((field) => {
+      if (field.isRelation()) {
+        // Trees are validated against metadata, so their relations are always found
+        const relation = metadata.findRelationWithPropertyPath(field.name);
+        checkNode(
+          field,
+          [...path, field.name],
+          relation?.inverseEntityMetadata ?? metadata,
+        );
+        return;
+      }
+
+      // Relation pseudo-fields (e.g. 'articles.$count') join their relation in a subquery,
+      // where their filters scope related entities
+      if (splitRelationAggregate(field.name)) {
+        const [relations] = splitEntityPath(metadata, field.name);
+        const relationPath: string[] = relations.map(
+          (relation) => relation.propertyPath,
+        );
+        relationPath.forEach((_, index) =>
+          checkJoin([...path, ...relationPath.slice(0, index + 1)]),
+        );
+        checkFilters(
+          field.clauses.where,
+          [...path, ...relationPath],
+          relations[relations.length - 1]?.inverseEntityMetadata ?? metadata,
+          true,
+        );
+      }
+    });
+  };
+
+  checkNode(tree, [], metadata);
+}
+
+/**
+ * Checks page size of a paginated query respects maximum take
+ * @param limits query limits
+ * @param take page size
+ * @throws RepositoryQueryLimitException if page size is missing or too big
+ */
+export function assertTakeLimit(limits: QueryLimits, take?: number): void {
+  const { maxTake } = limits;
+
+  if (maxTake !== undefined && (take === undefined || take > maxTake)) {
+    throw new RepositoryQueryLimitException(
+      'maxTake',
+      'take',
+      `Page size must be provided and at most ${maxTake}, received '${take}'`,
+    );
+  }
+}
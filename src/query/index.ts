@@ -1 +1,4 @@
+export * from './path.interface';
 export * from './query-options.interface';
+export * from './query-string';
+// resolve-info is imported on its own, since it needs the optional graphql package
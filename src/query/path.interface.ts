@@ -0,0 +1,108 @@
+/**
+ * TYPED PATHS
+ *
+ * Paths of an entity as template literal types, following relations (and embedded
+ * columns) up to a bounded depth. Let's say Order (id, payload, articles) has many
+ * Article (id, price, order):
+ *
+ * Path<Order> -> '*' | 'id' | 'payload' | `payload->${string}` | 'articles' | 'articles.*'
+ *   | 'articles.$count' | 'articles.$exists' | 'articles.id' | 'articles.price' | 'articles.order' | ...
+ * FieldPath<Order> -> same paths, without wildcards nor relation pseudo-fields
+ *
+ * Entity types without declared properties (any, ObjectLiteral) accept any string path,
+ * which keeps query options built from strings (query strings, GraphQL) usable
+ */
+
+import { RelationAggregate } from './query-options.interface';
+
+/**
+ * Relation levels followed by paths when no depth is given
+ */
+export type DefaultPathDepth = 3;
+
+type PathPrimitive =
+  string | number | boolean | bigint | symbol | Date | null | undefined;
+
+// Depth left after following one more relation
+type PreviousDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Whether an entity type declares no properties to build paths from
+ * (any, or an index signature like ObjectLiteral)
+ */
+export type IsUntypedEntity<T> = 0 extends 1 & T
+  ? true
+  : string extends keyof T
+    ? true
+    : false;
+
+/**
+ * Entity a property leads to: related entity (collections unwrapped), embedded columns or JSON document
+ */
+export type PropertyEntity<V> =
+  NonNullable<V> extends readonly (infer E)[] ? NonNullable<E> : NonNullable<V>;
+
+// Paths of a property: columns end there, relations go on
+type PropertyPath<K extends string, V, Depth extends number> =
+  NonNullable<V> extends (...args: never[]) => unknown
+    ? never
+    : PropertyEntity<V> extends PathPrimitive
+      ? K
+      : | K
+        | `${K}->${string}`
+        | (NonNullable<V> extends readonly unknown[]
+            ? `${K}.${RelationAggregate}`
+            : never)
+        | ([Depth] extends [0]
+            ? never
+            : `${K}.${Path<PropertyEntity<V>, PreviousDepth[Depth]>}`);
+
+/**
+ * Selectable paths of an entity, wildcards included (e.g. 'articles.*')
+ */
+export type Path<T, Depth extends number = DefaultPathDepth> =
+  IsUntypedEntity<T> extends true
+    ? string
+    : | '*'
+      | {
+          // Entity types are never inferred from the paths written for them
+          [K in keyof NoInfer<T> & string]-?: PropertyPath<K, T[K], Depth>;
+        }[keyof NoInfer<T> & string];
+
+/**
+ * Paths of entity fields, to filter, order or search by (e.g. 'articles.price')
+ */
+export type FieldPath<T, Depth extends number = DefaultPathDepth> =
+  IsUntypedEntity<T> extends true
+    ? string
+    : Exclude<
+        Path<T, Depth>,
+        '*' | `${string}.*` | `${string}.${RelationAggregate}`
+      >;
+
+/**
+ * Paths entities can be sorted by: fields and relation pseudo-fields (e.g. 'articles.$count')
+ */
+export type OrderingPath<T, Depth extends number = DefaultPathDepth> =
+  IsUntypedEntity<T> extends true
+    ? string
+    : Exclude<Path<T, Depth>, '*' | `${string}.*`>;
+
+/**
+ * Type of the property a path points at, unknown for keys inside JSON documents
+ * (e.g. number for 'articles.price')
+ */
+export type PathValue<T, P extends string> =
+  IsUntypedEntity<T> extends true
+    ? unknown
+    : P extends `${infer K}.${infer Rest}`
+      ? K extends keyof T
+        ? PathValue<PropertyEntity<T[K]>, Rest>
+        : never
+      : P extends `${infer K}->${string}`
+        ? K extends keyof T
+          ? unknown
+          : never
+        : P extends keyof T
+          ? T[P]
+          : never;
@@ -1,3 +1,13 @@
+import { ObjectLiteral } from 'typeorm';
+
+import {
+  FieldPath,
+  IsUntypedEntity,
+  OrderingPath,
+  Path,
+  PathValue,
+} from './path.interface';
+
 export enum OrderType {
   ASC = 'asc',
   DESC = 'desc',
@@ -14,24 +24,194 @@ export enum FilterOperator {
   GREATER_OR_EQUAL = '>=',
   EQUAL = '=',
   NOT_EQUAL = '!=',
+  IS_NULL = 'isNull',
+  IS_NOT_NULL = 'isNotNull',
+  NOT_IN = 'notIn',
+  BETWEEN = 'between',
+  NOT_CONTAINS = 'notContains',
+  CONTAINS_INSENSITIVE = 'iContains',
+  STARTS_WITH_INSENSITIVE = 'iStartsWith',
+  ENDS_WITH_INSENSITIVE = 'iEndsWith',
+  JSON_CONTAINS = 'jsonContains', // JSON document contains value, given as JSON text (e.g. '{"tier":"gold"}')
+  JSON_HAS_KEY = 'hasKey', // JSON object has value as key
+  MATCHES = 'matches', // Full-text match of value as plain text query (Postgres only)
 }
 
-export interface FilterType {
-  value: string;
-  operator: FilterOperator;
-  field: string;
+/**
+ * Operator of a filter: a FilterOperator value, or the name of
+ * a custom operator registered in DynamicRepository (e.g. 'withinRadius')
+ */
+export type FilterOperatorName = FilterOperator | string;
+
+export type FilterPrimitiveValue = string | number | boolean | Date | null;
+
+/**
+ * Value to filter by. It is checked and coerced against the filtered column type
+ * (e.g. '10' for an int column becomes 10, 'abc' is rejected)
+ * Values of date columns (no time) are 'YYYY-MM-DD' strings, timestamp ones become Date
+ * Lists are only accepted by list operators (IN, NOT IN) and BETWEEN (exactly two values)
+ * Null checks (IS NULL, IS NOT NULL) do not need any value, null is just accepted
+ * by '=' and '!=' (as IS NULL and IS NOT NULL)
+ */
+export type FilterValue = FilterPrimitiveValue | FilterPrimitiveValue[];
+
+/**
+ * How a filter on a to-many relation path applies to the related entities
+ * SOME: at least one related entity matches
+ * NONE: no related entity matches
+ * EVERY: all related entities match (entities without related ones match too)
+ *
+ * Quantified filters are checked with an EXISTS subquery on the entity declaring
+ * the relation, so they never cut down selected relation collections
+ */
+export enum FilterQuantifier {
+  SOME = 'some',
+  NONE = 'none',
+  EVERY = 'every',
+}
+
+/**
+ * Value of a filter on a property, given its type: the property type itself
+ * (e.g. number for 'articles.price'), or strings for dates
+ */
+export type PropertyFilterValue<V> = unknown extends V
+  ? FilterValue
+  : NonNullable<V> extends Date
+    ? Date | string | (Date | string)[] | null
+    : NonNullable<V> extends FilterPrimitiveValue
+      ? NonNullable<V> | NonNullable<V>[] | null
+      : FilterValue; // JSON documents
+
+interface FieldFilter<P, V> {
+  value?: V;
+  operator: FilterOperatorName;
+  field: P;
+  quantifier?: FilterQuantifier; // Only for to-many relation paths (e.g. 'articles.price')
+}
+
+/**
+ * Filter on an entity field. For typed entities (e.g. FilterType<Order>), field is
+ * one of its paths and value is inferred from the property type. Custom operators
+ * taking other values (e.g. a number for a text column) need untyped filters
+ */
+export type FilterType<T = ObjectLiteral> =
+  IsUntypedEntity<T> extends true
+    ? FieldFilter<string, FilterValue>
+    : {
+        [P in FieldPath<T>]: FieldFilter<
+          P,
+          PropertyFilterValue<PathValue<T, P>>
+        >;
+      }[FieldPath<T>];
+
+/**
+ * Groups filter expressions so they can be combined with AND / OR or negated.
+ * Leaves are regular FilterType, whose fields may point at any relation depth
+ * relative to the entity where the group is declared (e.g. 'articles.price')
+ *
+ * Some examples:
+ * { or: [ { field: 'status', ... }, { field: 'assignee', ... } ] }
+ * { not: { and: [ { field: 'articles.price', ... }, { field: 'total', ... } ] } }
+ */
+export interface AndFilterGroup<T = ObjectLiteral> {
+  and: FilterExpression<T>[];
+}
+
+export interface OrFilterGroup<T = ObjectLiteral> {
+  or: FilterExpression<T>[];
+}
+
+export interface NotFilterGroup<T = ObjectLiteral> {
+  not: FilterExpression<T>;
+}
+
+export type FilterGroup<T = ObjectLiteral> =
+  AndFilterGroup<T> | OrFilterGroup<T> | NotFilterGroup<T>;
+
+export type FilterExpression<T = ObjectLiteral> =
+  FilterType<T> | FilterGroup<T>;
+
+/**
+ * Checks if filter expression is a group (and / or / not) instead of a leaf filter
+ * @param expression filter expression
+ */
+export function isFilterGroup<T>(
+  expression: FilterExpression<T>,
+): expression is FilterGroup<T> {
+  return 'and' in expression || 'or' in expression || 'not' in expression;
+}
+
+/**
+ * Flattens a filter expression into its leaf filters
+ * @param expression filter expression (leaf or group)
+ */
+export function getFilterLeaves<T>(
+  expression: FilterExpression<T>,
+): FilterType<T>[] {
+  if ('and' in expression) {
+    return expression.and.flatMap(getFilterLeaves);
+  }
+  if ('or' in expression) {
+    return expression.or.flatMap(getFilterLeaves);
+  }
+  if ('not' in expression) {
+    return getFilterLeaves(expression.not);
+  }
+  return [expression];
 }
 
-export interface OrderingBy {
-  field: string;
+/**
+ * Pseudo-fields of to-many relations (e.g. 'articles.$count'), computed by a correlated
+ * subquery instead of loading related entities. Values are set into a property named after
+ * the relation: COUNT into `${relation}Count` (e.g. articlesCount), EXISTS into `${relation}Exists`.
+ * These properties cannot be columns nor relations of the entity, but may be declared
+ * as plain optional properties to type them (e.g. articlesCount?: number)
+ */
+export enum RelationAggregate {
+  COUNT = '$count',
+  EXISTS = '$exists',
+}
+
+export interface OrderingBy<T = ObjectLiteral> {
+  field: OrderingPath<T>;
   type: OrderType;
 }
 
+/**
+ * How search term is matched against search fields
+ * CONTAINS: fields contain the term, ignoring case (default)
+ * STARTS_WITH: fields start with the term, ignoring case
+ * FULL_TEXT: fields match the term as a full-text query (to_tsvector / plainto_tsquery,
+ * Postgres only). Entities are ordered by rank, after any explicit ordering
+ */
+export enum SearchMode {
+  CONTAINS = 'contains',
+  STARTS_WITH = 'startsWith',
+  FULL_TEXT = 'fullText',
+}
+
+/**
+ * Free-text search across many fields, at any relation level.
+ * Entities match if any of the fields matches the term
+ *
+ * Some examples:
+ * { term: 'john', fields: ['name', 'customer.email', 'articles.sku'] }
+ * { term: 'red shoes', fields: ['name', 'description'], mode: SearchMode.FULL_TEXT }
+ */
+export interface SearchOptions<T = ObjectLiteral> {
+  term: string; // Blank terms do not filter anything
+  fields: FieldPath<T>[];
+  mode?: SearchMode;
+}
+
 /**
  * Options used to query, filter and order
  * entities attributes
+ *
+ * Paths are checked at compile time for typed entities (e.g. CommonQueryOptions<Order>),
+ * see Path. Untyped options (CommonQueryOptions) accept any string
  */
-export interface CommonQueryOptions {
+export interface CommonQueryOptions<T = ObjectLiteral> {
   /**
    * If empty, will select all entity attributes AND relations recursively
    * If present, will only select those. Same applies recursively:
@@ -49,9 +229,11 @@ export interface CommonQueryOptions {
    * ['*', 'articles.*'] -> Will select all Order attributes and also join all Article attributes, EXCLUDING Article relations
    * ['*', 'articles'] -> Will select all Order attributes and also join all Article attributes, INCLUDING Article relations
    * ['*', 'articles.id', 'articles.replacement.*'] -> Will select all Order attributes, just Article id, and all article's Replacement attributes (excluding replacement relations)
+   * ['id', 'payload->customer'] -> Will select Order id and just customer key of payload JSON column
+   * ['id', 'articles.$count'] -> Will select Order id and its number of articles (articlesCount), without loading them
    * ...
    */
-  selections?: string[];
+  selections?: Path<T>[];
   /**
    * If empty, no where clauses will be used
    * If present, will filter by them. It can filter at any relation level.
@@ -59,8 +241,18 @@ export interface CommonQueryOptions {
    * Some examples:
    * [ { field: 'id', operator: FilterOperator.EQUAL, value: 'exampleId' } ]
    * [ { field: 'articles.id', operator: FilterOperator.EQUAL, value: 'exampleId' } ]
+   * [ { field: 'meta.payload->customer->tier', operator: FilterOperator.EQUAL, value: 'gold' } ]
+   *
+   * Entries of the array are joined with AND. Use groups to express OR / NOT:
+   * [ { or: [ { field: 'status', operator: FilterOperator.EQUAL, value: 'open' },
+   *           { field: 'assignee', operator: FilterOperator.EQUAL, value: 'me' } ] } ]
+   * [ { not: { field: 'articles.price', operator: FilterOperator.GREATER, value: '100' } } ]
+   *
+   * Filters on relations also cut down selected relation collections. Use a quantifier
+   * to filter entities by their related ones while selecting complete collections:
+   * [ { field: 'articles.price', operator: FilterOperator.GREATER, value: '100', quantifier: FilterQuantifier.EVERY } ]
    */
-  where?: FilterType[];
+  where?: FilterExpression<T>[];
   /**
    * If empty, no ordering clauses will be used
    * If present, will sort by them. It can sort at any relation level.
@@ -68,6 +260,63 @@ export interface CommonQueryOptions {
    * Some examples:
    * [ { field: 'id', type: OrderType.ASC } ]
    * [ { field: 'articles.id', type: OrderType.DESC } ]
+   * [ { field: 'payload->customer->tier', type: OrderType.ASC } ]
+   * [ { field: 'articles.$count', type: OrderType.DESC } ]
+   */
+  ordering?: OrderingBy<T>[];
+  /**
+   * If present, entities must match search term in any of search fields,
+   * on top of where filters. Fields of to-many relations (e.g. 'articles.sku')
+   * are checked with EXISTS subqueries, so they do not cut down selected collections
+   *
+   * Some examples:
+   * { term: 'john', fields: ['name', 'customer.email', 'articles.sku'] }
+   */
+  search?: SearchOptions<T>;
+}
+
+export enum AggregateFunction {
+  COUNT = 'count',
+  COUNT_DISTINCT = 'countDistinct',
+  SUM = 'sum',
+  AVG = 'avg',
+  MIN = 'min',
+  MAX = 'max',
+}
+
+export interface AggregateMetric<T = ObjectLiteral> {
+  fn: AggregateFunction;
+  /**
+   * Field to aggregate, at any relation level (e.g. 'articles.price').
+   * Use '*' to count rows
+   */
+  field: FieldPath<T> | '*';
+  /**
+   * Name of the metric in returned rows, a plain identifier (letters, digits and '_')
+   */
+  as: string;
+}
+
+/**
+ * Options used to aggregate entities attributes
+ *
+ * Some examples:
+ * { metrics: [ { fn: AggregateFunction.COUNT, field: '*', as: 'orders' } ] }
+ * {
+ *   where: [ { field: 'status', operator: FilterOperator.EQUAL, value: 'open' } ],
+ *   groupBy: ['customerId'],
+ *   metrics: [ { fn: AggregateFunction.SUM, field: 'articles.price', as: 'total' } ],
+ * }
+ */
+export interface CommonAggregateOptions<T = ObjectLiteral> {
+  /**
+   * Filters, same as in CommonQueryOptions
+   */
+  where?: FilterExpression<T>[];
+  /**
+   * Fields to group by, at any relation level (e.g. ['status', 'articles.sku']).
+   * Each of them is returned in rows under its own path
    */
-  ordering?: OrderingBy[];
+  groupBy?: FieldPath<T>[];
+  metrics: AggregateMetric<T>[];
 }
@@ -0,0 +1,474 @@
+import { EntitySchema, ObjectLiteral, ObjectType } from 'typeorm';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import { splitListValue } from '../dynamic/filter-value';
+import {
+  CommonFindOptions,
+  PaginatedFindParams,
+} from '../repository.interface';
+import {
+  CommonQueryOptions,
+  FilterOperator,
+  FilterOperatorName,
+  FilterPrimitiveValue,
+  FilterQuantifier,
+  FilterType,
+  isFilterGroup,
+  OrderingBy,
+  OrderType,
+  SearchMode,
+  SearchOptions,
+} from './query-options.interface';
+
+/**
+ * QUERY STRING SYNTAX
+ *
+ * select=*,articles.id                   -> selections: ['*', 'articles.id']
+ * filter[status]=open                    -> where: [{ field: 'status', operator: '=', value: 'open' }]
+ * filter[articles.price][>=]=10          -> where: [{ field: 'articles.price', operator: '>=', value: '10' }]
+ * filter[id][in]=a,b,c                   -> where: [{ field: 'id', operator: 'in', value: ['a', 'b', 'c'] }]
+ * filter[deletedAt][isNull]              -> where: [{ field: 'deletedAt', operator: 'isNull' }]
+ * filter[articles.price][>][every]=10    -> where: [{ field: 'articles.price', operator: '>', value: '10', quantifier: 'every' }]
+ * sort=-createdAt,articles.id            -> ordering: [{ field: 'createdAt', type: 'desc' }, { field: 'articles.id', type: 'asc' }]
+ * search[term]=john&search[fields]=name,customer.email&search[mode]=startsWith
+ *                                        -> search: { term: 'john', fields: ['name', 'customer.email'], mode: 'startsWith' }
+ * page[offset]=0&page[limit]=20          -> skip: 0, take: 20
+ *
+ * Operators are FilterOperator values (e.g. '>=', 'in', 'iContains'), also
+ * accepting the aliases eq, ne, lt, lte, gt and gte, or custom operator names (e.g. 'withinRadius').
+ * List values (in, notIn, between) are comma separated, commas inside values can be escaped as '\,'
+ * Quantifiers (some, none, every) go after the operator.
+ * Any other query parameter is ignored.
+ */
+
+// Parameter name may have bracketed parts containing '=', value is the rest
+const QUERY_PARAMETER_REGEX: RegExp = /^((?:[^=[]|\[[^\]]*\]?)*)(?:=(.*))?$/s;
+const FILTER_PARAMETER_REGEX: RegExp =
+  /^filter\[([^\]]+)\](?:\[([^\]]+)\](?:\[([^\]]+)\])?)?$/;
+const PAGE_PARAMETER_REGEX: RegExp = /^page\[([^\]]+)\]$/;
+const SEARCH_PARAMETER_REGEX: RegExp = /^search\[([^\]]+)\]$/;
+const CUSTOM_OPERATOR_REGEX: RegExp = /^\w+$/;
+
+const OPERATOR_ALIASES: Record<string, FilterOperator> = {
+  eq: FilterOperator.EQUAL,
+  ne: FilterOperator.NOT_EQUAL,
+  lt: FilterOperator.LOWER,
+  lte: FilterOperator.LOWER_OR_EQUAL,
+  gt: FilterOperator.GREATER,
+  gte: FilterOperator.GREATER_OR_EQUAL,
+};
+
+const LIST_OPERATORS: FilterOperatorName[] = [
+  FilterOperator.IN,
+  FilterOperator.NOT_IN,
+  FilterOperator.BETWEEN,
+];
+
+const NULL_OPERATORS: FilterOperatorName[] = [
+  FilterOperator.IS_NULL,
+  FilterOperator.IS_NOT_NULL,
+];
+
+/**
+ * A malformed query string parameter
+ */
+export interface QueryStringError {
+  parameter: string; // Query parameter name (e.g. 'page[limit]')
+  value: string; // Received value
+  message: string; // What is wrong with it
+}
+
+/**
+ * Thrown when a query string cannot be parsed, listing every malformed parameter
+ */
+export class QueryStringParseException extends RepositoryInvalidArgumentException {
+  constructor(public readonly errors: QueryStringError[]) {
+    super(
+      'Malformed query string: ' +
+        errors
+          .map(({ parameter, message }) => `${parameter} (${message})`)
+          .join(', '),
+    );
+    this.name = 'QueryStringParseException';
+  }
+}
+
+export interface ParsedQueryString {
+  queryOptions: CommonQueryOptions;
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * Splits a query string into its parameters. Unlike URLSearchParams, a '=' inside
+ * brackets belongs to the parameter name, so 'filter[price][>=]=10' can be written unencoded
+ * @param query query string
+ */
+function splitQueryString(query: string): [string, string][] {
+  const decode = (component: string): string => {
+    try {
+      return decodeURIComponent(component.replace(/\+/g, ' '));
+    } catch {
+      // Malformed escape sequences are kept as they come
+      return component;
+    }
+  };
+
+  return (query.startsWith('?') ? query.substring(1) : query)
+    .split('&')
+    .filter((pair) => pair.length)
+    .map((pair) => {
+      const [, parameter, value = ''] = decode(pair).match(
+        QUERY_PARAMETER_REGEX,
+      ) as RegExpMatchArray;
+      return [parameter, value];
+    });
+}
+
+/**
+ * Escapes a list value so it can be joined with commas
+ * @param value list value
+ */
+function escapeListValue(value: string): string {
+  return value.replace(/[\\,]/g, (char) => '\\' + char);
+}
+
+/**
+ * Serializes a single filter value
+ * @param value filter value
+ */
+function serializeValue(value: FilterPrimitiveValue): string {
+  if (value === null) {
+    return '';
+  }
+
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Resolves operator token used in query string
+ * Word tokens that are not FilterOperator values are taken as custom operator names,
+ * which are checked against registered operators when the query tree is built
+ * @param token operator token (e.g. '>=', 'gte', 'in', 'withinRadius')
+ */
+function parseOperator(token: string): FilterOperatorName | undefined {
+  if (token in OPERATOR_ALIASES) {
+    return OPERATOR_ALIASES[token];
+  }
+
+  return (
+    Object.values(FilterOperator).find((operator) => operator === token) ??
+    (CUSTOM_OPERATOR_REGEX.test(token) ? token : undefined)
+  );
+}
+
+/**
+ * Parses a non negative integer pagination value
+ * @param value received value
+ */
+function parsePageValue(value: string): number | undefined {
+  if (!/^\d+$/.test(value)) {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Parses a query string into query options and pagination
+ * @param query query string (e.g. 'select=*&sort=-createdAt') or its params
+ * @returns query options, skip and take
+ * @throws QueryStringParseException if any parameter is malformed
+ */
+export function parseQueryString(
+  query: string | URLSearchParams,
+): ParsedQueryString {
+  const params: [string, string][] =
+    typeof query === 'string'
+      ? splitQueryString(query)
+      : Array.from(query.entries());
+
+  const errors: QueryStringError[] = [];
+  const queryOptions: CommonQueryOptions = {};
+  const parsed: ParsedQueryString = { queryOptions };
+  const search: Partial<SearchOptions> = {};
+
+  params.forEach(([parameter, value]) => {
+    if (parameter === 'select') {
+      const selections = value
+        .split(',')
+        .map((selection) => selection.trim())
+        .filter((selection) => selection.length);
+
+      queryOptions.selections = [
+        ...(queryOptions.selections ?? []),
+        ...selections,
+      ];
+      return;
+    }
+
+    if (parameter === 'sort') {
+      const ordering: OrderingBy[] = [];
+
+      value
+        .split(',')
+        .map((sort) => sort.trim())
+        .forEach((sort) => {
+          const descending: boolean = sort.startsWith('-');
+          const field: string =
+            descending || sort.startsWith('+') ? sort.substring(1) : sort;
+
+          if (!field.length) {
+            errors.push({ parameter, value, message: 'Empty sort field' });
+            return;
+          }
+
+          ordering.push({
+            field,
+            type: descending ? OrderType.DESC : OrderType.ASC,
+          });
+        });
+
+      queryOptions.ordering = [...(queryOptions.ordering ?? []), ...ordering];
+      return;
+    }
+
+    const filterMatch = parameter.match(FILTER_PARAMETER_REGEX);
+    if (filterMatch) {
+      const [, field, token = FilterOperator.EQUAL, quantifierToken] =
+        filterMatch;
+      const operator = parseOperator(token);
+      const quantifier = Object.values(FilterQuantifier).find(
+        (value) => value === quantifierToken,
+      );
+
+      if (!operator) {
+        errors.push({
+          parameter,
+          value,
+          message: `Unknown filter operator '${token}'`,
+        });
+        return;
+      }
+
+      if (quantifierToken !== undefined && !quantifier) {
+        errors.push({
+          parameter,
+          value,
+          message: `Unknown filter quantifier '${quantifierToken}'`,
+        });
+        return;
+      }
+
+      const filter: FilterType = { field, operator };
+      if (quantifier) {
+        filter.quantifier = quantifier;
+      }
+      if (LIST_OPERATORS.includes(operator)) {
+        filter.value = splitListValue(value);
+      } else if (!NULL_OPERATORS.includes(operator)) {
+        filter.value = value;
+      }
+
+      queryOptions.where = [...(queryOptions.where ?? []), filter];
+      return;
+    }
+
+    if (parameter.startsWith('filter')) {
+      errors.push({
+        parameter,
+        value,
+        message:
+          "Filters must look like 'filter[field]', 'filter[field][operator]' or 'filter[field][operator][quantifier]'",
+      });
+      return;
+    }
+
+    const searchMatch = parameter.match(SEARCH_PARAMETER_REGEX);
+    if (searchMatch) {
+      const mode = Object.values(SearchMode).find((mode) => mode === value);
+
+      if (searchMatch[1] === 'term') {
+        search.term = value;
+      } else if (searchMatch[1] === 'fields') {
+        search.fields = value
+          .split(',')
+          .map((field) => field.trim())
+          .filter((field) => field.length);
+      } else if (searchMatch[1] !== 'mode') {
+        errors.push({
+          parameter,
+          value,
+          message:
+            "Search must be 'search[term]', 'search[fields]' or 'search[mode]'",
+        });
+      } else if (mode) {
+        search.mode = mode;
+      } else {
+        errors.push({
+          parameter,
+          value,
+          message: `Unknown search mode '${value}'`,
+        });
+      }
+      return;
+    }
+
+    const pageMatch = parameter.match(PAGE_PARAMETER_REGEX);
+    if (pageMatch) {
+      const pageValue = parsePageValue(value);
+
+      if (pageValue === undefined) {
+        errors.push({
+          parameter,
+          value,
+          message: 'Expected a non negative integer',
+        });
+      } else if (pageMatch[1] === 'offset') {
+        parsed.skip = pageValue;
+      } else if (pageMatch[1] === 'limit') {
+        parsed.take = pageValue;
+      } else {
+        errors.push({
+          parameter,
+          value,
+          message: "Pagination must be 'page[offset]' or 'page[limit]'",
+        });
+      }
+      return;
+    }
+
+    if (parameter.startsWith('page')) {
+      errors.push({
+        parameter,
+        value,
+        message: "Pagination must be 'page[offset]' or 'page[limit]'",
+      });
+    }
+  });
+
+  if (search.term !== undefined || search.fields || search.mode) {
+    if (!search.fields?.length) {
+      errors.push({
+        parameter: 'search[fields]',
+        value: '',
+        message: 'Search needs at least one field',
+      });
+    } else {
+      queryOptions.search = {
+        ...search,
+        term: search.term ?? '',
+        fields: search.fields,
+      };
+    }
+  }
+
+  if (errors.length) {
+    throw new QueryStringParseException(errors);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parses a query string into the params of DynamicRepository find / findAndCount
+ * @param entityClass Entity to find (e.g. 'Order')
+ * @param query query string or its params
+ * @param findOptions DynamicRepository find options
+ * @throws QueryStringParseException if any parameter is malformed
+ */
+export function parseFindParams<T extends ObjectLiteral = ObjectLiteral>(
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  query: string | URLSearchParams,
+  findOptions?: CommonFindOptions,
+): PaginatedFindParams<T> {
+  const { queryOptions, skip, take } = parseQueryString(query);
+
+  // Parsed paths are plain strings, checked against entity metadata when the query tree is built
+  return [
+    entityClass,
+    queryOptions as unknown as CommonQueryOptions<T>,
+    findOptions,
+    skip,
+    take,
+  ];
+}
+
+/**
+ * Serializes query options and pagination into a query string,
+ * following the same syntax parseQueryString understands
+ * @param queryOptions Selections, filters, ordering...
+ * @param skip offset
+ * @param take page size
+ * @returns query string (without leading '?')
+ */
+export function serializeQueryString(
+  queryOptions: CommonQueryOptions = {},
+  skip?: number,
+  take?: number,
+): string {
+  const params = new URLSearchParams();
+  const { selections, where, ordering, search } = queryOptions;
+
+  if (selections?.length) {
+    params.append('select', selections.join(','));
+  }
+
+  where?.forEach((filter) => {
+    if (isFilterGroup(filter)) {
+      throw new RepositoryInvalidArgumentException(
+        'Filter groups (and / or / not) cannot be serialized into a query string',
+      );
+    }
+
+    const { field, operator, value, quantifier } = filter;
+    const parameter =
+      `filter[${field}][${operator}]` + (quantifier ? `[${quantifier}]` : '');
+
+    if (NULL_OPERATORS.includes(operator)) {
+      params.append(parameter, '');
+    } else if (LIST_OPERATORS.includes(operator)) {
+      const listValues = Array.isArray(value) ? value : [value ?? null];
+      params.append(
+        parameter,
+        listValues
+          .map((listValue) => escapeListValue(serializeValue(listValue)))
+          .join(','),
+      );
+    } else {
+      params.append(
+        parameter,
+        Array.isArray(value)
+          ? value.map(serializeValue).join(',')
+          : serializeValue(value ?? null),
+      );
+    }
+  });
+
+  if (ordering?.length) {
+    params.append(
+      'sort',
+      ordering
+        .map(({ field, type }) => (type === OrderType.DESC ? '-' : '') + field)
+        .join(','),
+    );
+  }
+
+  if (search) {
+    params.append('search[term]', search.term);
+    params.append('search[fields]', search.fields.join(','));
+    if (search.mode) {
+      params.append('search[mode]', search.mode);
+    }
+  }
+
+  if (skip !== undefined) {
+    params.append('page[offset]', String(skip));
+  }
+
+  if (take !== undefined) {
+    params.append('page[limit]', String(take));
+  }
+
+  return params.toString();
+}
@@ -0,0 +1,379 @@
+import {
+  FieldNode,
+  getArgumentValues,
+  getDirectiveValues,
+  getNamedType,
+  GraphQLField,
+  GraphQLIncludeDirective,
+  GraphQLNamedType,
+  GraphQLResolveInfo,
+  GraphQLSkipDirective,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  SelectionNode,
+  SelectionSetNode,
+} from 'graphql';
+
+import { RepositoryInvalidArgumentException } from '../../../exceptions';
+import {
+  CommonQueryOptions,
+  FilterExpression,
+  OrderingBy,
+  OrderType,
+} from './query-options.interface';
+
+/**
+ * GRAPHQL RESOLVE INFO
+ *
+ * Field names are entity property names, so the selection set of the field being resolved
+ * maps to selections, following fragments, inline fragments and @skip / @include directives.
+ * Aliases are resolved to their field names. Where and ordering arguments of a field
+ * with a selection set apply to its level, their fields being relative to it:
+ *
+ * orders(where: [{ field: "status", operator: "=", value: "open" }]) {
+ *   id
+ *   articles(ordering: [{ field: "price", type: "desc" }]) { sku }
+ * }
+ * -> selections: ['id', 'articles.sku']
+ *    where: [{ field: 'status', operator: '=', value: 'open' }]
+ *    ordering: [{ field: 'articles.price', type: 'desc' }]
+ */
+
+export interface ResolveInfoOptions {
+  whereArgument?: string; // Argument holding filter expressions, 'where' by default
+  orderingArgument?: string; // Argument holding ordering, 'ordering' by default
+  // Field holding entities when resolved type wraps them (e.g. 'items' of a cursor page)
+  entitiesField?: string;
+}
+
+type ArgumentNames = Required<
+  Pick<ResolveInfoOptions, 'whereArgument' | 'orderingArgument'>
+>;
+
+// Fields selected at a level, by field name: aliases of the same field are merged
+type SelectedFields = Map<
+  string,
+  { nodes: FieldNode[]; definition?: GraphQLField<unknown, unknown> }
+>;
+
+/**
+ * Checks @skip and @include directives of a selection
+ * @param info GraphQL resolve info
+ * @param selection field, fragment spread or inline fragment
+ */
+function isIncluded(
+  info: GraphQLResolveInfo,
+  selection: SelectionNode,
+): boolean {
+  const skip = getDirectiveValues(
+    GraphQLSkipDirective,
+    selection,
+    info.variableValues,
+  );
+  const include = getDirectiveValues(
+    GraphQLIncludeDirective,
+    selection,
+    info.variableValues,
+  );
+
+  return skip?.if !== true && include?.if !== false;
+}
+
+/**
+ * Collects fields of a selection set, following fragments and inline fragments
+ * @param info GraphQL resolve info
+ * @param selectionSet selection set
+ * @param type GraphQL type fields belong to
+ * @param fields fields collected so far
+ */
+function collectFields(
+  info: GraphQLResolveInfo,
+  selectionSet: SelectionSetNode,
+  type: GraphQLNamedType | undefined,
+  fields: SelectedFields = new Map(),
+): SelectedFields {
+  selectionSet.selections
+    .filter((selection) => isIncluded(info, selection))
+    .forEach((selection) => {
+      if (selection.kind === Kind.FIELD) {
+        const name: string = selection.name.value;
+        const selected = fields.get(name) ?? {
+          nodes: [],
+          definition:
+            isObjectType(type) || isInterfaceType(type)
+              ? type.getFields()[name]
+              : undefined,
+        };
+        selected.nodes.push(selection);
+        fields.set(name, selected);
+        return;
+      }
+
+      const fragment =
+        selection.kind === Kind.FRAGMENT_SPREAD
+          ? info.fragments[selection.name.value]
+          : selection;
+      if (!fragment) {
+        return;
+      }
+
+      collectFields(
+        info,
+        fragment.selectionSet,
+        fragment.typeCondition
+          ? info.schema.getType(fragment.typeCondition.name.value)
+          : type,
+        fields,
+      );
+    });
+
+  return fields;
+}
+
+/**
+ * Compares argument values structurally, regardless of object key order
+ * @param a argument value
+ * @param b argument value
+ */
+function isSameArgumentValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isSameArgumentValue(item, b[index]))
+    );
+  }
+
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    // Keys with undefined values are missing arguments
+    const keysOf = (value: object): string[] =>
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key]) => key);
+    const keys: string[] = keysOf(a);
+
+    return (
+      keys.length === keysOf(b).length &&
+      keys.every((key) =>
+        isSameArgumentValue(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+      )
+    );
+  }
+
+  return a === b;
+}
+
+/**
+ * Prefixes the fields of a filter expression with the path of the level it was declared at
+ * @param expression filter expression (leaf or group)
+ * @param path relation path (e.g. 'articles')
+ */
+function prefixFilterExpression(
+  expression: FilterExpression,
+  path: string,
+): FilterExpression {
+  if ('and' in expression) {
+    return {
+      and: expression.and.map((child) => prefixFilterExpression(child, path)),
+    };
+  }
+  if ('or' in expression) {
+    return {
+      or: expression.or.map((child) => prefixFilterExpression(child, path)),
+    };
+  }
+  if ('not' in expression) {
+    return { not: prefixFilterExpression(expression.not, path) };
+  }
+  return { ...expression, field: path + '.' + expression.field };
+}
+
+/**
+ * Adds where and ordering arguments of a field to query options
+ * @param info GraphQL resolve info
+ * @param options argument names
+ * @param queryOptions query options being built
+ * @param nodes field nodes (one per alias or fragment selecting it)
+ * @param definition GraphQL field definition
+ * @param path field path, empty for the resolved field
+ * @throws RepositoryInvalidArgumentException if field is selected with different arguments
+ */
+function addArguments(
+  info: GraphQLResolveInfo,
+  options: ArgumentNames,
+  queryOptions: CommonQueryOptions,
+  nodes: readonly FieldNode[],
+  definition: GraphQLField<unknown, unknown> | undefined,
+  path: string,
+): void {
+  if (!definition) {
+    return;
+  }
+
+  // Nodes without where nor ordering just add selections
+  const argumentsList = nodes
+    .map((node) => getArgumentValues(definition, node, info.variableValues))
+    .map((args) => ({
+      where: args[options.whereArgument] as
+        FilterExpression | FilterExpression[] | undefined,
+      ordering: args[options.orderingArgument] as
+        OrderingBy | OrderingBy[] | undefined,
+    }))
+    .filter(({ where, ordering }) => where || ordering);
+
+  if (
+    argumentsList.some((args) => !isSameArgumentValue(args, argumentsList[0]))
+  ) {
+    throw new RepositoryInvalidArgumentException(
+      `Field '${path || definition.name}' is selected more than once with different arguments`,
+    );
+  }
+
+  if (!argumentsList.length) {
+    return;
+  }
+
+  const [{ where, ordering }] = argumentsList;
+
+  if (where) {
+    queryOptions.where = [
+      ...(queryOptions.where ?? []),
+      ...(Array.isArray(where) ? where : [where]).map((expression) =>
+        path ? prefixFilterExpression(expression, path) : expression,
+      ),
+    ];
+  }
+
+  if (ordering) {
+    queryOptions.ordering = [
+      ...(queryOptions.ordering ?? []),
+      ...(Array.isArray(ordering) ? ordering : [ordering]).map(
+        ({ field, type }) => ({
+          field: path ? path + '.' + field : field,
+          // Enum values may come upper case (e.g. DESC)
+          type: String(type ?? OrderType.ASC).toLowerCase() as OrderType,
+        }),
+      ),
+    ];
+  }
+}
+
+/**
+ * Adds selections and arguments of fields selected at a level to query options
+ * @param info GraphQL resolve info
+ * @param options argument names
+ * @param queryOptions query options being built
+ * @param fields fields selected at this level
+ * @param path path of this level, empty for the resolved field
+ */
+function addSelectedFields(
+  info: GraphQLResolveInfo,
+  options: ArgumentNames,
+  queryOptions: CommonQueryOptions,
+  fields: SelectedFields,
+  path: string,
+): void {
+  fields.forEach(({ nodes, definition }, name) => {
+    // Introspection fields (e.g. __typename) are not entity fields
+    if (name.startsWith('__')) {
+      return;
+    }
+
+    const fieldPath: string = path ? path + '.' + name : name;
+    const selectionSets: SelectionSetNode[] = nodes.flatMap((node) =>
+      node.selectionSet ? [node.selectionSet] : [],
+    );
+
+    if (!selectionSets.length) {
+      queryOptions.selections?.push(fieldPath);
+      return;
+    }
+
+    // Relation or embedded columns
+    addArguments(info, options, queryOptions, nodes, definition, fieldPath);
+
+    const type = definition ? getNamedType(definition.type) : undefined;
+    const childFields: SelectedFields = new Map();
+    selectionSets.forEach((selectionSet) =>
+      collectFields(info, selectionSet, type, childFields),
+    );
+    addSelectedFields(info, options, queryOptions, childFields, fieldPath);
+  });
+}
+
+/**
+ * Builds query options from the selection set of the GraphQL field being resolved,
+ * so DynamicRepository can answer a nested GraphQL query with a single SQL query
+ * @param info GraphQL resolve info of the field returning entities
+ * @param options argument names and entities field
+ * @returns selections, where and ordering
+ * @throws RepositoryInvalidArgumentException if a relation is selected with different arguments
+ */
+export function parseResolveInfo(
+  info: GraphQLResolveInfo,
+  options: ResolveInfoOptions = {},
+): CommonQueryOptions {
+  const argumentNames: ArgumentNames = {
+    whereArgument: options.whereArgument ?? 'where',
+    orderingArgument: options.orderingArgument ?? 'ordering',
+  };
+  const queryOptions: CommonQueryOptions = { selections: [] };
+
+  const definition: GraphQLField<unknown, unknown> | undefined =
+    isObjectType(info.parentType) || isInterfaceType(info.parentType)
+      ? info.parentType.getFields()[info.fieldName]
+      : undefined;
+  addArguments(
+    info,
+    argumentNames,
+    queryOptions,
+    info.fieldNodes,
+    definition,
+    '',
+  );
+
+  let fields: SelectedFields = new Map();
+  info.fieldNodes.forEach((node) => {
+    if (node.selectionSet) {
+      collectFields(
+        info,
+        node.selectionSet,
+        getNamedType(info.returnType),
+        fields,
+      );
+    }
+  });
+
+  if (options.entitiesField) {
+    const entities = fields.get(options.entitiesField);
+    fields = new Map();
+    entities?.nodes.forEach((node) => {
+      if (node.selectionSet) {
+        collectFields(
+          info,
+          node.selectionSet,
+          entities.definition
+            ? getNamedType(entities.definition.type)
+            : undefined,
+          fields,
+        );
+      }
+    });
+  }
+
+  addSelectedFields(info, argumentNames, queryOptions, fields, '');
+  queryOptions.selections = Array.from(new Set(queryOptions.selections));
+
+  return queryOptions;
+}
@@ -1,6 +1,19 @@
-import { EntitySchema, ObjectLiteral, ObjectType } from 'typeorm';
+import {
+  EntityManager,
+  EntitySchema,
+  ObjectLiteral,
+  ObjectType,
+} from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 
-import { CommonQueryOptions } from './query/query-options.interface';
+import { FilterOperatorDefinition } from './dynamic/filter-operators';
+import { QueryTree } from './dynamic/query-tree';
+import { QueryLimits } from './policy/query-limits';
+import {
+  CommonAggregateOptions,
+  CommonQueryOptions,
+  FilterExpression,
+} from './query/query-options.interface';
 
 /**
  * These options tell DynamicRepository how to behave internally
@@ -17,11 +30,48 @@ export interface CommonFindOptions {
    * want to join every relation regardless it is eager or not [not recommended]
    */
   onlyEager?: boolean;
+  /**
+   * How relations are loaded:
+   * - 'join' (default): every relation is joined in one single SQL query
+   * - 'query': to-one relations are joined, but every to-many relation is loaded afterwards
+   *   in its own batched query (WHERE fk IN (...)) and set into its owner entities. This prevents
+   *   cartesian blow-ups when selecting many to-many relations, and lets pagination use plain limit & offset.
+   *   Filters and ordering of to-many relations still filter and sort owner entities (through subqueries),
+   *   as joined ones do. Filter groups mixing them with other fields filter owners too, but their
+   *   loaded relation entities are not narrowed by them
+   */
+  relationLoadStrategy?: 'join' | 'query';
+  /**
+   * Limits this query must respect (max depth, joins, filters, orderings and take).
+   * They override DynamicRepository default limits
+   */
+  limits?: QueryLimits;
+  /**
+   * If true, soft deleted rows (@DeleteDateColumn) are found too, at every relation level.
+   * By default (false) they are excluded from found entities and from every joined relation
+   */
+  withDeleted?: boolean;
+  /**
+   * If true, only soft deleted entities are found (e.g. for trash views), which needs
+   * a delete date column. Their relations include soft deleted rows too
+   */
+  onlyDeleted?: boolean;
+  /**
+   * Pessimistic lock on found rows (e.g. SELECT ... FOR UPDATE). It needs a transaction,
+   * so repository must run with its manager (see DynamicRepository.withManager).
+   * On Postgres just rows of found entity table are locked, not the ones of joined relations
+   */
+  lock?: { mode: 'pessimistic_read' | 'pessimistic_write' };
+  /**
+   * Paginates with a cursor (keyset pagination) instead of skip & take, following query
+   * ordering. find then returns a CursorPage, and findAndCount a CursorPage and the total
+   */
+  cursor?: CursorPaginationOptions;
 }
 
 export type FindParams<T> = [
   entityClass: ObjectType<T> | EntitySchema<T> | string,
-  queryOptions?: CommonQueryOptions,
+  queryOptions?: CommonQueryOptions<T>,
   findOptions?: CommonFindOptions,
 ];
 
@@ -31,14 +81,170 @@ export type PaginatedFindParams<T> = [
   take?: number,
 ];
 
+/**
+ * Find params with a prebuilt query tree (e.g. a cached or stored one, see QueryTree.fromObject)
+ * instead of query options. Tree is validated against repository configuration again
+ */
+export type QueryTreeFindParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  query: QueryTree,
+  findOptions?: CommonFindOptions,
+];
+
+export type PaginatedQueryTreeFindParams<T> = [
+  ...args: QueryTreeFindParams<T>,
+  skip?: number,
+  take?: number,
+];
+
+/**
+ * Keyset (cursor) pagination options. Rows are paginated following query ordering,
+ * using entity primary key as tie-breaker. Null sort values always go last.
+ * Fields of to-many relations sort each entity by its lowest value (highest when descending),
+ * so adding related rows below (or above) that value may move the entity across pages
+ */
+export interface CursorPaginationOptions {
+  /**
+   * Page size
+   */
+  take: number;
+  /**
+   * Returns rows after this cursor (usually nextCursor of previous page)
+   */
+  after?: string | null;
+  /**
+   * Returns rows before this cursor (usually prevCursor of previous page)
+   */
+  before?: string | null;
+}
+
+export type CursorFindOptions = CommonFindOptions & {
+  cursor: CursorPaginationOptions;
+};
+
+export type CursorFindParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  queryOptions: CommonQueryOptions<T> | undefined,
+  findOptions: CursorFindOptions,
+];
+
+export type CursorQueryTreeFindParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  query: QueryTree,
+  findOptions: CursorFindOptions,
+];
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null; // Cursor to fetch next page, null if there is none
+  prevCursor: string | null; // Cursor to fetch previous page, null if there is none
+}
+
+/**
+ * DynamicRepository.explain options
+ */
+export interface ExplainOptions {
+  /**
+   * If true, driver EXPLAIN statement is run to return the query plan.
+   * Query itself is not run (it is not an EXPLAIN ANALYZE)
+   */
+  analyze?: boolean;
+}
+
+export type ExplainParams<T> = [
+  ...args: PaginatedFindParams<T>,
+  explainOptions?: ExplainOptions,
+];
+
+export interface QueryJoin {
+  path: string; // Relation path (e.g. 'articles.tags')
+  alias: string; // SQL alias of joined relation (e.g. 'tags__1')
+  depth: number; // Relation level, 1 for root entity relations
+  type: 'INNER' | 'LEFT';
+}
+
+export interface QueryExplanation {
+  tree: Record<string, any>; // Normalized query tree (see QueryTree.toObject)
+  sql: string; // Query finding entities
+  parameters: unknown[]; // Query parameters, in the order driver receives them
+  joins: QueryJoin[];
+  plan?: Record<string, unknown>[]; // Driver EXPLAIN rows, only if analyze option is set
+}
+
+export type AggregateParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  aggregateOptions: CommonAggregateOptions<T>,
+  findOptions?: CommonFindOptions,
+];
+
+/**
+ * Bulk operations find affected rows with the same filters find does,
+ * at any relation level (e.g. 'articles.price'). Filters cannot be empty
+ */
+export type DeleteWhereParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  where: FilterExpression<T>[],
+  bulkOptions?: BulkWhereOptions,
+];
+
+export type UpdateWhereParams<T> = [
+  entityClass: ObjectType<T> | EntitySchema<T> | string,
+  where: FilterExpression<T>[],
+  patch: QueryDeepPartialEntity<T>, // Entity columns to set
+  bulkOptions?: BulkWhereOptions,
+];
+
+/**
+ * Which rows bulk operations may affect. As in find, soft deleted rows (and related ones
+ * filters go through) are left out unless withDeleted or onlyDeleted is set
+ */
+export type BulkWhereOptions = Pick<
+  CommonFindOptions,
+  'withDeleted' | 'onlyDeleted'
+>;
+
 export interface CommonRepository {
-  find: <T extends ObjectLiteral>(
-    ...args: PaginatedFindParams<T>
-  ) => Promise<T[]>;
-  findAndCount: <T extends ObjectLiteral>(
-    ...args: PaginatedFindParams<T>
-  ) => Promise<[T[], number]>;
+  find: {
+    <T extends ObjectLiteral>(
+      ...args: CursorFindParams<T> | CursorQueryTreeFindParams<T>
+    ): Promise<CursorPage<T>>;
+    <T extends ObjectLiteral>(
+      ...args: PaginatedFindParams<T> | PaginatedQueryTreeFindParams<T>
+    ): Promise<T[]>;
+  };
+  findAndCount: {
+    <T extends ObjectLiteral>(
+      ...args: CursorFindParams<T> | CursorQueryTreeFindParams<T>
+    ): Promise<[CursorPage<T>, number]>;
+    <T extends ObjectLiteral>(
+      ...args: PaginatedFindParams<T> | PaginatedQueryTreeFindParams<T>
+    ): Promise<[T[], number]>;
+  };
   findOne: <T extends ObjectLiteral>(
-    ...args: FindParams<T>
+    ...args: FindParams<T> | QueryTreeFindParams<T>
   ) => Promise<T | null>;
+  aggregate: <T extends ObjectLiteral>(
+    ...args: AggregateParams<T>
+  ) => Promise<Record<string, unknown>[]>;
+  explain: <T extends ObjectLiteral>(
+    ...args: ExplainParams<T>
+  ) => Promise<QueryExplanation>;
+  updateWhere: <T extends ObjectLiteral>(
+    ...args: UpdateWhereParams<T>
+  ) => Promise<number>;
+  deleteWhere: <T extends ObjectLiteral>(
+    ...args: DeleteWhereParams<T>
+  ) => Promise<number>;
+  softDeleteWhere: <T extends ObjectLiteral>(
+    ...args: DeleteWhereParams<T>
+  ) => Promise<number>;
+  /**
+   * Returns a repository running every query with given manager: a transaction one
+   * (dataSource.transaction(manager => ...)) or the one of a query runner (queryRunner.manager)
+   */
+  withManager: (manager: EntityManager) => CommonRepository;
+  registerOperator: (
+    name: string,
+    definition: FilterOperatorDefinition,
+  ) => void;
 }
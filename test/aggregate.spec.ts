@@ -0,0 +1,62 @@
+import { DataSource } from 'typeorm';
+
+import { AggregateFunction, DynamicRepository } from '../src';
+import { createDataSource, CustomerEntity, OrderEntity } from './fixtures';
+
+describe('DynamicRepository aggregate', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource
+      .getRepository(CustomerEntity)
+      .save([{ id: 'c1', name: 'SECRET', deletedAt: null }]);
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10 },
+      { id: 'o2', status: 'open', total: 20 },
+      { id: 'o3', status: 'closed', total: 30 },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('groups metrics under their names', async () => {
+    const rows = await repository.aggregate<OrderEntity>(OrderEntity, {
+      groupBy: ['status'],
+      metrics: [
+        { fn: AggregateFunction.COUNT, field: '*', as: 'orders' },
+        { fn: AggregateFunction.SUM, field: 'total', as: 'total_sum' },
+      ],
+    });
+
+    expect(
+      rows
+        .map(({ status, orders, total_sum }) => ({
+          status,
+          orders: Number(orders),
+          total_sum: Number(total_sum),
+        }))
+        .sort((a, b) => String(a.status).localeCompare(String(b.status))),
+    ).toEqual([
+      { status: 'closed', orders: 1, total_sum: 30 },
+      { status: 'open', orders: 2, total_sum: 30 },
+    ]);
+  });
+
+  it('rejects metric names which are not plain identifiers', async () => {
+    for (const as of [
+      'x", (SELECT name FROM customer LIMIT 1) AS "leak',
+      '1st',
+      'total sum',
+    ]) {
+      await expect(
+        repository.aggregate<OrderEntity>(OrderEntity, {
+          metrics: [{ fn: AggregateFunction.COUNT, field: '*', as }],
+        }),
+      ).rejects.toThrow(`received '${as}'`);
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository, OrderType } from '../src';
+import { ArticleEntity, createDataSource, OrderEntity } from './fixtures';
+
+describe('DynamicRepository bulk operations', () => {
+  const deletedAt = new Date('2024-01-01T00:00:00Z');
+
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeEach(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, deletedAt: null },
+      { id: 'o2', status: 'open', total: 20, deletedAt: null },
+      { id: 'o3', status: 'open', total: 30, deletedAt },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'A', price: 5, deletedAt: null, order: { id: 'o1' } },
+      { id: 'a2', sku: 'B', price: 50, deletedAt, order: { id: 'o2' } },
+      { id: 'a3', sku: 'C', price: 50, deletedAt: null, order: { id: 'o3' } },
+    ]);
+  });
+
+  afterEach(() => dataSource.destroy());
+
+  // Statuses of every order, soft deleted ones included
+  const getStatuses = async () =>
+    (
+      await dataSource
+        .getRepository(OrderEntity)
+        .find({ withDeleted: true, order: { id: OrderType.ASC } })
+    ).map(({ id, status }) => [id, status]);
+
+  it('updates rows matching relation filters, leaving soft deleted rows out', async () => {
+    const affected = await repository.updateWhere<OrderEntity>(
+      OrderEntity,
+      [{ field: 'articles.price', operator: '>', value: 10 }],
+      { status: 'closed' },
+    );
+
+    expect(affected).toBe(0);
+    expect(await getStatuses()).toEqual([
+      ['o1', 'open'],
+      ['o2', 'open'],
+      ['o3', 'open'],
+    ]);
+  });
+
+  it('updates soft deleted rows, and rows matching through them, with withDeleted', async () => {
+    const affected = await repository.updateWhere<OrderEntity>(
+      OrderEntity,
+      [{ field: 'articles.price', operator: '>', value: 10 }],
+      { status: 'closed' },
+      { withDeleted: true },
+    );
+
+    expect(affected).toBe(2);
+    expect(await getStatuses()).toEqual([
+      ['o1', 'open'],
+      ['o2', 'closed'],
+      ['o3', 'closed'],
+    ]);
+  });
+
+  it('updates embedded columns, rejecting relations', async () => {
+    const affected = await repository.updateWhere<OrderEntity>(
+      OrderEntity,
+      [{ field: 'id', operator: '=', value: 'o1' }],
+      { status: 'shipped', shipping: { city: 'Lyon' } },
+    );
+    const order = await dataSource
+      .getRepository(OrderEntity)
+      .findOneByOrFail({ id: 'o1' });
+
+    expect(affected).toBe(1);
+    expect(order).toMatchObject({
+      status: 'shipped',
+      shipping: { city: 'Lyon', street: null },
+    });
+    await expect(
+      repository.updateWhere<OrderEntity>(
+        OrderEntity,
+        [{ field: 'id', operator: '=', value: 'o1' }],
+        { customer: { id: 'c1' } },
+      ),
+    ).rejects.toThrow("Field 'customer' does not exist in order entity");
+    await expect(
+      repository.updateWhere<OrderEntity>(
+        OrderEntity,
+        [{ field: 'id', operator: '=', value: 'o1' }],
+        { shipping: { country: 'FR' } } as never,
+      ),
+    ).rejects.toThrow(
+      "Field 'shipping.country' does not exist in order entity",
+    );
+  });
+
+  it('deletes just soft deleted rows with onlyDeleted', async () => {
+    await dataSource.getRepository(ArticleEntity).clear();
+
+    const affected = await repository.deleteWhere<OrderEntity>(
+      OrderEntity,
+      [{ field: 'status', operator: '=', value: 'open' }],
+      { onlyDeleted: true },
+    );
+
+    expect(affected).toBe(1);
+    expect(await getStatuses()).toEqual([
+      ['o1', 'open'],
+      ['o2', 'open'],
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { DataSource } from 'typeorm';
+
+import {
+  CursorPage,
+  DynamicRepository,
+  OrderingBy,
+  OrderType,
+  Path,
+  QueryTree,
+} from '../src';
+import { ArticleEntity, createDataSource, OrderEntity } from './fixtures';
+
+describe('DynamicRepository cursor pagination', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const saveArticles = (articles: [string, string][]) =>
+    dataSource.getRepository(ArticleEntity).save(
+      articles.map(([id, orderId]) => ({
+        id,
+        sku: id,
+        price: 1,
+        order: { id: orderId },
+      })),
+    );
+
+  const saveOrders = async (orders: [string, number, string[]][]) => {
+    await dataSource
+      .getRepository(OrderEntity)
+      .save(orders.map(([id, total]) => ({ id, status: 'open', total })));
+    await saveArticles(
+      orders.flatMap(([id, , articles]) =>
+        articles.map((articleId): [string, string] => [articleId, id]),
+      ),
+    );
+  };
+
+  /**
+   * Reads every page following next cursors, calling afterPage between them
+   * @returns ids of found orders, in page order
+   */
+  const readPages = async (
+    selections: Path<OrderEntity>[],
+    ordering: OrderingBy<OrderEntity>[],
+    afterPage: (page: number) => Promise<unknown> = async () => undefined,
+  ): Promise<string[]> => {
+    const ids: string[] = [];
+    let after: string | null = null;
+    let page = 0;
+    do {
+      const result: CursorPage<OrderEntity> = await repository.find(
+        OrderEntity,
+        { selections, ordering },
+        { cursor: { take: 2, after } },
+      );
+      ids.push(...result.items.map(({ id }) => id));
+      after = result.nextCursor;
+      await afterPage(++page);
+    } while (after);
+
+    return ids;
+  };
+
+  beforeEach(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await saveOrders([
+      ['o1', 30, ['a10']],
+      ['o2', 10, ['a30', 'a31']],
+      ['o3', 20, ['a20']],
+      ['o4', 20, ['a50']],
+      ['o5', 50, ['a40']],
+      ['o6', 40, []],
+    ]);
+  });
+
+  afterEach(() => dataSource.destroy());
+
+  it('paginates following ordering with primary key as tie-breaker', async () => {
+    const ids = await readPages(
+      ['id'],
+      [{ field: 'total', type: OrderType.ASC }],
+    );
+
+    expect(ids).toEqual(['o2', 'o3', 'o4', 'o1', 'o6', 'o5']);
+  });
+
+  it('neither skips nor repeats rows when rows are inserted between pages', async () => {
+    const ids = await readPages(
+      ['id'],
+      [{ field: 'total', type: OrderType.ASC }],
+      (page) =>
+        page === 1
+          ? // Before the cursor (not found), at it and after it (found)
+            saveOrders([
+              ['o0', 5, []],
+              ['o31', 20, []],
+              ['o7', 35, []],
+              ['o8', 60, []],
+            ])
+          : Promise.resolve(),
+    );
+
+    expect(ids).toEqual([
+      'o2',
+      'o3',
+      'o31',
+      'o4',
+      'o1',
+      'o7',
+      'o6',
+      'o5',
+      'o8',
+    ]);
+  });
+
+  it('neither skips nor repeats rows sorted by a to-many relation field when rows are inserted between pages', async () => {
+    const ids = await readPages(
+      ['id', 'articles.id'],
+      [{ field: 'articles.id', type: OrderType.ASC }],
+      (page) =>
+        page === 1
+          ? Promise.all([
+              // Related rows above lowest ones do not move their entities
+              saveArticles([
+                ['a90', 'o1'],
+                ['a91', 'o5'],
+                ['a92', 'o4'],
+              ]),
+              saveOrders([
+                ['o7', 1, ['a00']],
+                ['o8', 1, ['a45']],
+              ]),
+            ])
+          : Promise.resolve(),
+    );
+
+    // Entities without related rows go last
+    expect(ids).toEqual(['o1', 'o3', 'o2', 'o5', 'o8', 'o4', 'o6']);
+  });
+
+  it('paginates backwards from previous page cursors', async () => {
+    const ordering: OrderingBy<OrderEntity>[] = [
+      { field: 'total', type: OrderType.DESC },
+    ];
+    const first = await repository.find<OrderEntity>(
+      OrderEntity,
+      { selections: ['id'], ordering },
+      { cursor: { take: 4 } },
+    );
+    const second = await repository.find<OrderEntity>(
+      OrderEntity,
+      { selections: ['id'], ordering },
+      { cursor: { take: 4, after: first.nextCursor } },
+    );
+    const previous = await repository.find<OrderEntity>(
+      OrderEntity,
+      { selections: ['id'], ordering },
+      { cursor: { take: 4, before: second.prevCursor } },
+    );
+
+    expect(first.items.map(({ id }) => id)).toEqual(['o5', 'o6', 'o1', 'o3']);
+    expect(second.items.map(({ id }) => id)).toEqual(['o4', 'o2']);
+    expect(second.nextCursor).toBeNull();
+    expect(previous.items).toEqual(first.items);
+    expect(previous.prevCursor).toBeNull();
+  });
+
+  it('counts every matching entity along with a cursor page', async () => {
+    const [page, count] = await repository.findAndCount<OrderEntity>(
+      OrderEntity,
+      QueryTree.createTree(dataSource, OrderEntity, {
+        selections: ['id'],
+        ordering: [{ field: 'total', type: OrderType.ASC }],
+      }),
+      { cursor: { take: 2 } },
+    );
+
+    expect(page.items.map(({ id }) => id)).toEqual(['o2', 'o3']);
+    expect(count).toBe(6);
+  });
+
+  it('keeps SQL out of cursors', async () => {
+    const { nextCursor } = await repository.find<OrderEntity>(
+      OrderEntity,
+      {
+        selections: ['id', 'articles.id'],
+        ordering: [{ field: 'articles.id', type: OrderType.DESC }],
+      },
+      { cursor: { take: 2 } },
+    );
+    const decoded = Buffer.from(nextCursor ?? '', 'base64url').toString();
+
+    expect(decoded).not.toMatch(/MAX|MIN|"article|\\"/);
+    expect(decoded.length).toBeLessThan(60);
+  });
+
+  it('rejects cursors of another ordering', async () => {
+    const { nextCursor } = await repository.find<OrderEntity>(
+      OrderEntity,
+      {
+        selections: ['id'],
+        ordering: [{ field: 'total', type: OrderType.ASC }],
+      },
+      { cursor: { take: 2 } },
+    );
+
+    await expect(
+      repository.find<OrderEntity>(
+        OrderEntity,
+        {
+          selections: ['id'],
+          ordering: [{ field: 'id', type: OrderType.ASC }],
+        },
+        { cursor: { take: 2, after: nextCursor } },
+      ),
+    ).rejects.toThrow('it does not match query ordering');
+  });
+});
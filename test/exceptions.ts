@@ -0,0 +1,4 @@
+/**
+ * Stand-in for the exceptions module of the project hosting the repository
+ */
+export class RepositoryInvalidArgumentException extends Error {}
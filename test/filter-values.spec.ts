@@ -0,0 +1,110 @@
+import { DataSource } from 'typeorm';
+
+import {
+  DynamicRepository,
+  FilterType,
+  OrderType,
+  parseFindParams,
+} from '../src';
+import { createDataSource, OrderEntity } from './fixtures';
+
+describe('DynamicRepository filter values', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, deliveryDate: '2024-03-01' },
+      {
+        id: 'o2',
+        status: 'open,urgent',
+        total: 20,
+        deliveryDate: '2024-03-31',
+      },
+      { id: 'o3', status: 'closed', total: 30, deliveryDate: '2024-04-01' },
+      { id: 'o4', status: 'closed', total: 40, deliveryDate: null },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  // Ids of orders matching filters
+  const findIds = async (where: FilterType<OrderEntity>[]) =>
+    (
+      await repository.find<OrderEntity>(OrderEntity, {
+        selections: ['id'],
+        where,
+        ordering: [{ field: 'id', type: OrderType.ASC }],
+      })
+    ).map(({ id }) => id);
+
+  it('compares date columns with calendar dates', async () => {
+    expect(
+      await findIds([
+        { field: 'deliveryDate', operator: '=', value: '2024-03-01' },
+      ]),
+    ).toEqual(['o1']);
+    expect(
+      await findIds([
+        {
+          field: 'deliveryDate',
+          operator: 'between',
+          value: '2024-03-01,2024-03-31',
+        },
+      ]),
+    ).toEqual(['o1', 'o2']);
+    expect(
+      await findIds([
+        { field: 'deliveryDate', operator: '>', value: '2024-03-31' },
+      ]),
+    ).toEqual(['o3']);
+  });
+
+  it('rejects date column values which are not calendar dates', async () => {
+    for (const value of ['2024-02-30', '2024-03-01T10:00:00Z', '03/01/2024']) {
+      await expect(
+        findIds([{ field: 'deliveryDate', operator: '=', value }]),
+      ).rejects.toThrow("expected a date as 'YYYY-MM-DD'");
+    }
+  });
+
+  it('splits legacy list strings on unescaped commas', async () => {
+    expect(
+      await findIds([
+        { field: 'status', operator: 'in', value: 'open\\,urgent,closed' },
+      ]),
+    ).toEqual(['o2', 'o3', 'o4']);
+  });
+
+  it('filters by null with equality operators', async () => {
+    expect(
+      await findIds([{ field: 'deliveryDate', operator: '=', value: null }]),
+    ).toEqual(['o4']);
+    expect(
+      await findIds([{ field: 'deliveryDate', operator: '!=', value: null }]),
+    ).toEqual(['o1', 'o2', 'o3']);
+  });
+
+  it('rejects null for other comparison operators', async () => {
+    await expect(
+      findIds([{ field: 'total', operator: '>', value: null }]),
+    ).rejects.toThrow("expects a non null value for operator '>'");
+  });
+
+  it('filters entities named by a string with untyped options', async () => {
+    const byName = await repository.find('order', {
+      selections: ['id', 'status'],
+      where: [{ field: 'total', operator: '>=', value: 30 }],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+    const parsed = await repository.find(
+      ...parseFindParams('order', 'select=id&filter[total][>=]=30&sort=id'),
+    );
+
+    expect(byName.map(({ id }) => id)).toEqual(['o3', 'o4']);
+    expect(parsed.map(({ id }) => id)).toEqual(['o3', 'o4']);
+  });
+});
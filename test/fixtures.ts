@@ -0,0 +1,165 @@
+import 'reflect-metadata';
+import {
+  Column,
+  DataSource,
+  DeleteDateColumn,
+  Entity,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryColumn,
+} from 'typeorm';
+
+import { VirtualField } from '../src';
+
+@Entity('customer')
+export class CustomerEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  name: string;
+
+  // Named as the property 'orders.$count' is set into, which is then rejected
+  @Column({ type: 'int', default: 0 })
+  ordersCount: number;
+
+  @DeleteDateColumn({ nullable: true })
+  deletedAt: Date | null;
+
+  @OneToMany(() => OrderEntity, (order) => order.customer)
+  orders: OrderEntity[];
+
+  @VirtualField({ expression: (column) => `UPPER(${column('name')})` })
+  shoutedName?: string;
+}
+
+@Entity('tag')
+export class TagEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  label: string;
+
+  @DeleteDateColumn({ nullable: true })
+  deletedAt: Date | null;
+}
+
+export class AddressEmbedded {
+  @Column({ type: 'varchar', nullable: true })
+  city: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  street: string | null;
+}
+
+@Entity('order')
+export class OrderEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  status: string;
+
+  @Column({ type: 'int' })
+  total: number;
+
+  @Column({ type: 'date', nullable: true })
+  deliveryDate: string | null;
+
+  @Column(() => AddressEmbedded)
+  shipping: AddressEmbedded;
+
+  @DeleteDateColumn({ nullable: true })
+  deletedAt: Date | null;
+
+  @ManyToOne(() => CustomerEntity, (customer) => customer.orders, {
+    eager: true,
+    nullable: true,
+  })
+  customer: CustomerEntity | null;
+
+  @OneToMany(() => ArticleEntity, (article) => article.order, { eager: true })
+  articles: ArticleEntity[];
+
+  @ManyToMany(() => TagEntity, { eager: true })
+  @JoinTable()
+  tags: TagEntity[];
+}
+
+@Entity('article')
+export class ArticleEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  sku: string;
+
+  @Column({ type: 'int' })
+  price: number;
+
+  @DeleteDateColumn({ nullable: true })
+  deletedAt: Date | null;
+
+  @ManyToOne(() => OrderEntity, (order) => order.articles)
+  order: OrderEntity;
+
+  @VirtualField({
+    expression: (column) => `${column('price')} * 2`,
+    type: 'int',
+  })
+  doublePrice?: number;
+}
+
+// Person and pet share column names ('code', 'person_id'), and person references itself
+@Entity('person')
+export class PersonEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column({ name: 'code' })
+  code: string;
+
+  @ManyToOne(() => PersonEntity, { nullable: true })
+  @JoinColumn({ name: 'person_id' })
+  mentor: PersonEntity | null;
+
+  @OneToMany(() => PetEntity, (pet) => pet.owner)
+  pets: PetEntity[];
+}
+
+@Entity('pet')
+export class PetEntity {
+  @PrimaryColumn()
+  id: string;
+
+  @Column({ name: 'code' })
+  code: string;
+
+  @ManyToOne(() => PersonEntity, (person) => person.pets)
+  @JoinColumn({ name: 'person_id' })
+  owner: PersonEntity;
+}
+
+/**
+ * Creates an initialized in-memory SQLite data source with test entities
+ */
+export async function createDataSource(): Promise<DataSource> {
+  const dataSource = new DataSource({
+    type: 'sqlite',
+    database: ':memory:',
+    entities: [
+      CustomerEntity,
+      TagEntity,
+      OrderEntity,
+      ArticleEntity,
+      PersonEntity,
+      PetEntity,
+    ],
+    synchronize: true,
+  });
+  return dataSource.initialize();
+}
@@ -0,0 +1,78 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository, OrderType } from '../src';
+import { createDataSource, PersonEntity, PetEntity } from './fixtures';
+
+describe('DynamicRepository join aliases', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(PersonEntity).save([
+      { id: 'ann', code: 'ANN', mentor: null },
+      { id: 'bob', code: 'BOB', mentor: { id: 'ann' } },
+      { id: 'eve', code: 'EVE', mentor: { id: 'bob' } },
+    ]);
+    await dataSource.getRepository(PetEntity).save([
+      { id: 'rex', code: 'REX', owner: { id: 'ann' } },
+      { id: 'tom', code: 'TOM', owner: { id: 'bob' } },
+      { id: 'kit', code: 'KIT', owner: { id: 'bob' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('hydrates self joins and entities sharing column names', async () => {
+    const person = await repository.findOne<PersonEntity>(PersonEntity, {
+      selections: [
+        'code',
+        'mentor.code',
+        'mentor.mentor.code',
+        'mentor.pets.code',
+        'pets.code',
+      ],
+      where: [{ field: 'id', operator: '=', value: 'eve' }],
+      ordering: [{ field: 'mentor.pets.code', type: OrderType.ASC }],
+    });
+
+    expect(person).toEqual({
+      id: 'eve',
+      code: 'EVE',
+      pets: [],
+      mentor: {
+        id: 'bob',
+        code: 'BOB',
+        mentor: { id: 'ann', code: 'ANN' },
+        pets: [{ code: 'KIT' }, { code: 'TOM' }],
+      },
+    });
+  });
+
+  it('hydrates entities joined again through allowed recursive relations', async () => {
+    const pet = await repository.findOne<PetEntity>(
+      PetEntity,
+      {
+        where: [{ field: 'id', operator: '=', value: 'tom' }],
+        ordering: [{ field: 'owner.pets.code', type: OrderType.ASC }],
+      },
+      { onlyEager: false, allowRecursively: ['pet'] },
+    );
+
+    // Person is not joined again, since it is not allowed to repeat
+    expect(pet).toEqual({
+      id: 'tom',
+      code: 'TOM',
+      owner: {
+        id: 'bob',
+        code: 'BOB',
+        pets: [
+          { id: 'kit', code: 'KIT' },
+          { id: 'tom', code: 'TOM' },
+        ],
+      },
+    });
+  });
+});
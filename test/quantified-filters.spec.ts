@@ -0,0 +1,151 @@
+import { DataSource } from 'typeorm';
+
+import {
+  DynamicRepository,
+  FilterExpression,
+  FilterOperator,
+  FilterQuantifier,
+  OrderType,
+} from '../src';
+import {
+  ArticleEntity,
+  createDataSource,
+  OrderEntity,
+  TagEntity,
+} from './fixtures';
+
+describe('DynamicRepository quantified filters', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const findOrderIds = async (
+    where: FilterExpression<OrderEntity>[],
+  ): Promise<string[]> => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id'],
+      where,
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+    return orders.map(({ id }) => id);
+  };
+
+  const priceOver = (
+    quantifier: FilterQuantifier,
+  ): FilterExpression<OrderEntity> => ({
+    field: 'articles.price',
+    operator: FilterOperator.GREATER,
+    value: 6,
+    quantifier,
+  });
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(TagEntity).save([
+      { id: 't1', label: 'gift' },
+      { id: 't2', label: 'urgent' },
+    ]);
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, tags: [{ id: 't1' }] },
+      { id: 'o2', status: 'open', total: 20, tags: [{ id: 't2' }] },
+      { id: 'o3', status: 'open', total: 30, tags: [] },
+      { id: 'o4', status: 'open', total: 40, tags: [] },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'a1', price: 5, order: { id: 'o1' } },
+      { id: 'a2', sku: 'a2', price: 8, order: { id: 'o1' } },
+      { id: 'a3', sku: 'a3', price: 9, order: { id: 'o2' } },
+      { id: 'a4', sku: 'a4', price: 7, order: { id: 'o4' } },
+      {
+        id: 'a5',
+        sku: 'a5',
+        price: 1,
+        order: { id: 'o4' },
+        deletedAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('keeps entities with some matching related entity', async () => {
+    expect(await findOrderIds([priceOver(FilterQuantifier.SOME)])).toEqual([
+      'o1',
+      'o2',
+      'o4',
+    ]);
+  });
+
+  it('keeps entities with no matching related entity, including those without any', async () => {
+    expect(await findOrderIds([priceOver(FilterQuantifier.NONE)])).toEqual([
+      'o3',
+    ]);
+  });
+
+  it('keeps entities whose every related entity matches, including those without any', async () => {
+    // Soft deleted articles are not taken into account
+    expect(await findOrderIds([priceOver(FilterQuantifier.EVERY)])).toEqual([
+      'o2',
+      'o3',
+      'o4',
+    ]);
+  });
+
+  it('keeps selected collections complete', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id', 'articles.id'],
+      where: [priceOver(FilterQuantifier.SOME)],
+      ordering: [
+        { field: 'id', type: OrderType.ASC },
+        { field: 'articles.id', type: OrderType.ASC },
+      ],
+    });
+
+    expect(
+      orders.map(({ id, articles }) => [
+        id,
+        articles.map((article) => article.id),
+      ]),
+    ).toEqual([
+      ['o1', ['a1', 'a2']],
+      ['o2', ['a3']],
+      ['o4', ['a4']],
+    ]);
+  });
+
+  it('quantifies many-to-many relations and filters inside groups', async () => {
+    expect(
+      await findOrderIds([
+        {
+          or: [
+            {
+              field: 'tags.label',
+              operator: FilterOperator.EQUAL,
+              value: 'gift',
+              quantifier: FilterQuantifier.SOME,
+            },
+            { field: 'total', operator: FilterOperator.GREATER, value: 35 },
+          ],
+        },
+      ]),
+    ).toEqual(['o1', 'o4']);
+  });
+
+  it('quantifies to-many relations reached through to-one relations', async () => {
+    const articles = await repository.find<ArticleEntity>(ArticleEntity, {
+      selections: ['id'],
+      where: [
+        {
+          field: 'order.articles.price',
+          operator: FilterOperator.LOWER,
+          value: 6,
+          quantifier: FilterQuantifier.NONE,
+        },
+      ],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+
+    expect(articles.map(({ id }) => id)).toEqual(['a3', 'a4']);
+  });
+});
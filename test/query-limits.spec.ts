@@ -0,0 +1,127 @@
+import { DataSource } from 'typeorm';
+
+import {
+  CommonQueryOptions,
+  CommonRepository,
+  DynamicRepository,
+  FilterQuantifier,
+  QueryLimits,
+  QueryTree,
+  RepositoryQueryLimitException,
+} from '../src';
+import { RepositoryInvalidArgumentException } from './exceptions';
+import { createDataSource, CustomerEntity, OrderEntity } from './fixtures';
+
+describe('DynamicRepository query limits', () => {
+  let dataSource: DataSource;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  const find = (
+    limits: QueryLimits,
+    options: CommonQueryOptions<OrderEntity>,
+  ) =>
+    new DynamicRepository(dataSource, false, { limits }).find<OrderEntity>(
+      OrderEntity,
+      options,
+    );
+
+  it('counts relations joined by pseudo-field subqueries', async () => {
+    const options: CommonQueryOptions<OrderEntity> = {
+      selections: ['id', 'articles.$count'],
+    };
+
+    await expect(find({ maxJoins: 1 }, options)).resolves.toEqual([]);
+    await expect(find({ maxJoins: 0 }, options)).rejects.toMatchObject({
+      limit: 'maxJoins',
+      path: 'articles',
+    });
+  });
+
+  it('counts relations joined by quantified filter subqueries', async () => {
+    await expect(
+      find(
+        { maxJoins: 0 },
+        {
+          selections: ['id'],
+          where: [
+            {
+              field: 'articles.price',
+              operator: '>',
+              value: 10,
+              quantifier: FilterQuantifier.EVERY,
+            },
+          ],
+        },
+      ),
+    ).rejects.toMatchObject({ limit: 'maxJoins', path: 'articles' });
+  });
+
+  it('does not count embedded columns of subquery filters as joins', async () => {
+    // 'orders' is joined by the pseudo-field and the quantified filter subqueries
+    const customers = await new DynamicRepository(dataSource, false, {
+      limits: { maxJoins: 2, maxDepth: 1 },
+    }).find<CustomerEntity>(CustomerEntity, {
+      selections: ['id', 'orders.$exists'],
+      where: [
+        {
+          field: 'orders.shipping.city',
+          operator: '=',
+          value: 'Lyon',
+          quantifier: FilterQuantifier.SOME,
+        },
+      ],
+    });
+
+    expect(customers).toEqual([]);
+  });
+
+  it('counts filters scoping pseudo-fields', async () => {
+    const error = await find(
+      { maxFilters: 1 },
+      {
+        selections: ['id', 'articles.$exists'],
+        where: [
+          { field: 'status', operator: '=', value: 'open' },
+          { field: 'articles.price', operator: '>', value: 10 },
+        ],
+      },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RepositoryQueryLimitException);
+    expect(error).toBeInstanceOf(RepositoryInvalidArgumentException);
+    expect(error).toMatchObject({
+      limit: 'maxFilters',
+      path: 'articles.price',
+    });
+  });
+
+  it('checks limits of trees read from objects', async () => {
+    const object = QueryTree.createTree(dataSource, OrderEntity, {
+      selections: ['id', 'articles.id'],
+    }).toObject();
+    const repository: CommonRepository = new DynamicRepository(
+      dataSource,
+      false,
+      { limits: { maxJoins: 0 } },
+    );
+
+    expect(() =>
+      QueryTree.fromObject(
+        { dataSource, limits: { maxJoins: 0 } },
+        OrderEntity,
+        object,
+      ),
+    ).toThrow(RepositoryQueryLimitException);
+    await expect(
+      repository.find<OrderEntity>(
+        OrderEntity,
+        QueryTree.fromObject(dataSource, OrderEntity, object),
+      ),
+    ).rejects.toMatchObject({ limit: 'maxJoins', path: 'articles' });
+  });
+});
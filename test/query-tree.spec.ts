@@ -0,0 +1,163 @@
+import { DataSource } from 'typeorm';
+
+import {
+  CommonQueryOptions,
+  DynamicRepository,
+  OrderType,
+  QueryTree,
+  RepositoryQueryLimitException,
+} from '../src';
+import { RepositoryInvalidArgumentException } from './exceptions';
+import { ArticleEntity, createDataSource, OrderEntity } from './fixtures';
+
+describe('QueryTree', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const createTree = (queryOptions: CommonQueryOptions<OrderEntity>) =>
+    QueryTree.createTree(dataSource, OrderEntity, queryOptions);
+
+  const summarize = (orders: OrderEntity[]) =>
+    orders.map(({ id, status, articles }) => ({
+      id,
+      status,
+      articles: articles?.map((article) => article.sku),
+    }));
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, deliveryDate: '2024-02-01' },
+      { id: 'o2', status: 'open', total: 20, deliveryDate: '2024-03-01' },
+      { id: 'o3', status: 'closed', total: 30, deliveryDate: null },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'A1', price: 5, order: { id: 'o1' } },
+      { id: 'a2', sku: 'A2', price: 8, order: { id: 'o2' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('reads back a stored tree, finding the same entities', async () => {
+    const queryOptions: CommonQueryOptions<OrderEntity> = {
+      selections: ['id', 'status', 'articles.sku'],
+      where: [
+        { field: 'deliveryDate', operator: '>=', value: '2024-02-15' },
+        { field: 'articles.price', operator: '>', value: 6 },
+      ],
+      ordering: [{ field: 'total', type: OrderType.DESC }],
+    };
+    const tree = createTree(queryOptions);
+    const stored = JSON.parse(JSON.stringify(tree.toObject()));
+
+    const readTree = QueryTree.fromObject(dataSource, OrderEntity, stored);
+
+    expect(readTree.toObject()).toEqual(tree.toObject());
+    expect(tree.diff(readTree)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+    expect(
+      summarize(await repository.find<OrderEntity>(OrderEntity, readTree)),
+    ).toEqual(
+      summarize(await repository.find<OrderEntity>(OrderEntity, queryOptions)),
+    );
+  });
+
+  it('rejects stored trees not matching entity or query limits', () => {
+    const stored = createTree({
+      selections: ['id', 'articles.sku'],
+    }).toObject();
+
+    expect(() =>
+      QueryTree.fromObject(dataSource, OrderEntity, { ...stored, nope: {} }),
+    ).toThrow(RepositoryInvalidArgumentException);
+    expect(() =>
+      QueryTree.fromObject(
+        { dataSource, limits: { maxDepth: 0 } },
+        OrderEntity,
+        stored,
+      ),
+    ).toThrow(RepositoryQueryLimitException);
+  });
+
+  it('merges trees selecting fields of both, matching filters of both', async () => {
+    const statusTree = createTree({
+      selections: ['id', 'status'],
+      where: [{ field: 'status', operator: '=', value: 'open' }],
+      ordering: [{ field: 'total', type: OrderType.DESC }],
+    });
+    const articlesTree = createTree({
+      selections: ['id', 'articles.sku'],
+      where: [{ field: 'total', operator: '>', value: 5 }],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+    const original = statusTree.toObject();
+
+    const merged = statusTree.merge(articlesTree);
+
+    expect(statusTree.toObject()).toEqual(original);
+    expect(merged.clauses.ordering).toEqual([
+      { field: 'total', type: OrderType.DESC },
+      { field: 'id', type: OrderType.ASC },
+    ]);
+    expect(
+      summarize(await repository.find<OrderEntity>(OrderEntity, merged)),
+    ).toEqual([
+      { id: 'o2', status: 'open', articles: ['A2'] },
+      { id: 'o1', status: 'open', articles: ['A1'] },
+    ]);
+  });
+
+  it('prunes nodes along with clauses referencing them', async () => {
+    const tree = createTree({
+      selections: ['id', 'status', 'articles.sku'],
+      where: [{ field: 'articles.price', operator: '>', value: 6 }],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+
+    const withoutSku = tree.prune('articles.sku');
+    const withoutArticles = tree.prune('articles');
+
+    expect(tree.diff(withoutSku)).toEqual({
+      added: [],
+      removed: ['articles.sku'],
+      changed: [],
+    });
+    expect(tree.diff(withoutArticles)).toEqual({
+      added: [],
+      removed: ['articles'],
+      changed: [],
+    });
+    expect(() => tree.prune('customer')).toThrow(
+      RepositoryInvalidArgumentException,
+    );
+    expect(
+      summarize(
+        await repository.find<OrderEntity>(OrderEntity, withoutArticles),
+      ),
+    ).toEqual([
+      { id: 'o1', status: 'open', articles: undefined },
+      { id: 'o2', status: 'open', articles: undefined },
+      { id: 'o3', status: 'closed', articles: undefined },
+    ]);
+  });
+
+  it('lists added, removed and changed nodes', () => {
+    const tree = createTree({ selections: ['id', 'status', 'articles.sku'] });
+    const other = createTree({
+      selections: ['id', 'total', 'articles.sku'],
+      where: [{ field: 'articles.price', operator: '>', value: 6 }],
+    });
+
+    expect(tree.diff(other)).toEqual({
+      added: ['articles.price', 'total'],
+      removed: ['status'],
+      changed: ['articles'],
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository, OrderType } from '../src';
+import {
+  ArticleEntity,
+  createDataSource,
+  CustomerEntity,
+  OrderEntity,
+} from './fixtures';
+
+describe('DynamicRepository relation pseudo-fields', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource
+      .getRepository(CustomerEntity)
+      .save({ id: 'c1', name: 'Ann', ordersCount: 7 });
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, customer: { id: 'c1' } },
+      { id: 'o2', status: 'open', total: 20, customer: { id: 'c1' } },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'A', price: 5, order: { id: 'o1' } },
+      { id: 'a2', sku: 'B', price: 15, order: { id: 'o1' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('sets pseudo-field values into properties named after the relation', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id', 'articles.$count', 'articles.$exists'],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+
+    expect(orders).toEqual([
+      { id: 'o1', articlesCount: 2, articlesExists: true },
+      { id: 'o2', articlesCount: 0, articlesExists: false },
+    ]);
+  });
+
+  it('rejects pseudo-fields whose property is a column of the entity', async () => {
+    await expect(
+      repository.find<CustomerEntity>(CustomerEntity, {
+        selections: ['id', 'orders.$count'],
+      }),
+    ).rejects.toThrow(
+      "'orders.$count' cannot be used, since its value would be set into 'ordersCount'",
+    );
+
+    const [customer] = await repository.find<CustomerEntity>(CustomerEntity, {
+      selections: ['id', 'ordersCount', 'orders.$exists'],
+    });
+    expect(customer).toEqual({ id: 'c1', ordersCount: 7, ordersExists: true });
+  });
+});
@@ -0,0 +1,154 @@
+import { DataSource } from 'typeorm';
+
+import {
+  CommonQueryOptions,
+  CursorPage,
+  DynamicRepository,
+  OrderType,
+} from '../src';
+import { ArticleEntity, createDataSource, OrderEntity } from './fixtures';
+
+describe('DynamicRepository relation load strategies', () => {
+  const strategies = ['join', 'query'] as const;
+
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const summarize = (orders: OrderEntity[]) =>
+    orders.map(({ id, articles }) => ({
+      id,
+      articles: articles?.map((article) => article.id).sort(),
+    }));
+
+  /**
+   * Finds orders and counts them with both strategies
+   * @returns found orders and count by strategy
+   */
+  const findWithBoth = (
+    queryOptions: CommonQueryOptions<OrderEntity>,
+    skip?: number,
+    take?: number,
+  ) =>
+    Promise.all(
+      strategies.map(async (relationLoadStrategy) => {
+        const [orders, count] = await repository.findAndCount<OrderEntity>(
+          OrderEntity,
+          queryOptions,
+          { relationLoadStrategy },
+          skip,
+          take,
+        );
+        return { orders: summarize(orders), count };
+      }),
+    );
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 30 },
+      { id: 'o2', status: 'closed', total: 10 },
+      { id: 'o3', status: 'open', total: 20 },
+      { id: 'o4', status: 'closed', total: 40 },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'a1', price: 5, order: { id: 'o1' } },
+      { id: 'a2', sku: 'a2', price: 8, order: { id: 'o1' } },
+      { id: 'a3', sku: 'a3', price: 3, order: { id: 'o2' } },
+      { id: 'a4', sku: 'a4', price: 9, order: { id: 'o4' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('filters entities by their to-many relation fields', async () => {
+    const [joined, detached] = await findWithBoth(
+      {
+        selections: ['id', 'articles.id'],
+        where: [{ field: 'articles.price', operator: '>', value: 6 }],
+        ordering: [{ field: 'id', type: OrderType.ASC }],
+      },
+      0,
+      10,
+    );
+
+    expect(detached).toEqual(joined);
+    expect(detached).toEqual({
+      orders: [
+        { id: 'o1', articles: ['a2'] },
+        { id: 'o4', articles: ['a4'] },
+      ],
+      count: 2,
+    });
+  });
+
+  it('filters entities by groups going through to-many relations', async () => {
+    const [joined, detached] = await findWithBoth(
+      {
+        selections: ['id'],
+        where: [
+          {
+            or: [
+              { field: 'articles.price', operator: '>', value: 6 },
+              { field: 'total', operator: '<', value: 15 },
+            ],
+          },
+          { not: { field: 'articles.price', operator: '<', value: 6 } },
+        ],
+        ordering: [{ field: 'id', type: OrderType.ASC }],
+      },
+      0,
+      10,
+    );
+
+    // Collections are loaded whole, groups just filter their owners
+    expect(detached.orders.map(({ id }) => id)).toEqual(
+      joined.orders.map(({ id }) => id),
+    );
+    expect(detached.orders.map(({ id }) => id)).toEqual(['o1', 'o4']);
+    expect(detached.count).toBe(joined.count);
+    expect(detached.count).toBe(2);
+  });
+
+  it('sorts entities by their to-many relation fields', async () => {
+    const [joined, detached] = await findWithBoth({
+      selections: ['id', 'articles.id'],
+      ordering: [{ field: 'articles.price', type: OrderType.DESC }],
+    });
+
+    expect(detached).toEqual(joined);
+    expect(detached.orders.map(({ id }) => id)).toEqual([
+      'o4',
+      'o1',
+      'o2',
+      'o3',
+    ]);
+  });
+
+  it('paginates by cursor sorting by to-many relation fields', async () => {
+    const pages = await Promise.all(
+      strategies.map(async (relationLoadStrategy) => {
+        const ids: string[] = [];
+        let after: string | null = null;
+        do {
+          const page: CursorPage<OrderEntity> = await repository.find(
+            OrderEntity,
+            {
+              selections: ['id', 'articles.id'],
+              ordering: [{ field: 'articles.id', type: OrderType.ASC }],
+            },
+            { relationLoadStrategy, cursor: { take: 3, after } },
+          );
+          ids.push(...page.items.map(({ id }) => id));
+          after = page.nextCursor;
+        } while (after);
+
+        return ids;
+      }),
+    );
+
+    expect(pages[1]).toEqual(pages[0]);
+    expect(pages[1]).toEqual(['o1', 'o2', 'o4', 'o3']);
+  });
+});
@@ -0,0 +1,61 @@
+import { buildSchema, graphql, GraphQLResolveInfo } from 'graphql';
+
+import { CommonQueryOptions } from '../src';
+import { parseResolveInfo } from '../src/query/resolve-info';
+
+describe('parseResolveInfo', () => {
+  // Arguments are JSON scalars, so they keep the key order they are written with
+  const schema = buildSchema(`
+    scalar JSON
+    type Article { id: ID, sku: String }
+    type Order { id: ID, articles(where: JSON, ordering: JSON): [Article] }
+    type Query { orders(where: JSON): [Order] }
+  `);
+
+  const parse = async (query: string): Promise<CommonQueryOptions> => {
+    let queryOptions: CommonQueryOptions = {};
+    const { errors } = await graphql({
+      schema,
+      source: query,
+      rootValue: {
+        orders: (args: unknown, context: unknown, info: GraphQLResolveInfo) => {
+          queryOptions = parseResolveInfo(info);
+          return [];
+        },
+      },
+    });
+    if (errors?.length) {
+      throw errors[0];
+    }
+
+    return queryOptions;
+  };
+
+  it('merges a relation selected with the same arguments in another key order', async () => {
+    const queryOptions = await parse(`{
+      orders {
+        id
+        a: articles(where: [{ field: "sku", operator: "=", value: "A" }]) { id }
+        b: articles(where: [{ value: "A", operator: "=", field: "sku" }]) { sku }
+      }
+    }`);
+
+    expect(queryOptions).toEqual({
+      selections: ['id', 'articles.id', 'articles.sku'],
+      where: [{ field: 'articles.sku', operator: '=', value: 'A' }],
+    });
+  });
+
+  it('rejects a relation selected with different arguments', async () => {
+    await expect(
+      parse(`{
+        orders {
+          a: articles(where: [{ field: "sku", operator: "=", value: "A" }]) { id }
+          b: articles(where: [{ field: "sku", operator: "=", value: "B" }]) { id }
+        }
+      }`),
+    ).rejects.toThrow(
+      "Field 'articles' is selected more than once with different arguments",
+    );
+  });
+});
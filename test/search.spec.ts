@@ -0,0 +1,115 @@
+import { DataSource } from 'typeorm';
+
+import {
+  CommonQueryOptions,
+  DynamicRepository,
+  OrderType,
+  SearchMode,
+  SearchOptions,
+} from '../src';
+import {
+  ArticleEntity,
+  createDataSource,
+  CustomerEntity,
+  OrderEntity,
+} from './fixtures';
+
+describe('DynamicRepository search', () => {
+  const fields: SearchOptions<OrderEntity>['fields'] = [
+    'status',
+    'customer.name',
+    'articles.sku',
+  ];
+
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const searchOrderIds = async (
+    search: SearchOptions<OrderEntity>,
+    queryOptions: CommonQueryOptions<OrderEntity> = {},
+  ): Promise<string[]> => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id'],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+      ...queryOptions,
+      search,
+    });
+    return orders.map(({ id }) => id);
+  };
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(CustomerEntity).save([
+      { id: 'c1', name: 'Ann 50%_off' },
+      { id: 'c2', name: 'Bob' },
+    ]);
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, customer: { id: 'c1' } },
+      { id: 'o2', status: 'closed', total: 20, customer: { id: 'c2' } },
+      { id: 'o3', status: 'on_hold', total: 30, customer: null },
+      { id: 'o4', status: 'open', total: 40, customer: { id: 'c2' } },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'X-1', price: 1, order: { id: 'o1' } },
+      { id: 'a2', sku: 'PROMO-50%', price: 1, order: { id: 'o2' } },
+      { id: 'a3', sku: 'plain', price: 1, order: { id: 'o2' } },
+      { id: 'a4', sku: 'ab50', price: 1, order: { id: 'o4' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('matches term case-insensitively across to-one and to-many relations', async () => {
+    expect(await searchOrderIds({ term: 'ANN', fields })).toEqual(['o1']);
+    expect(await searchOrderIds({ term: 'promo', fields })).toEqual(['o2']);
+    expect(await searchOrderIds({ term: 'open', fields })).toEqual([
+      'o1',
+      'o4',
+    ]);
+  });
+
+  it('matches % and _ literally', async () => {
+    expect(await searchOrderIds({ term: '50%', fields })).toEqual(['o1', 'o2']);
+    expect(await searchOrderIds({ term: '_', fields })).toEqual(['o1', 'o3']);
+  });
+
+  it('matches from the start of fields', async () => {
+    const mode = SearchMode.STARTS_WITH;
+
+    expect(await searchOrderIds({ term: 'pro', fields, mode })).toEqual(['o2']);
+    expect(await searchOrderIds({ term: 'romo', fields, mode })).toEqual([]);
+  });
+
+  it('keeps related collections complete and combines with filters', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id', 'articles.sku'],
+      where: [{ field: 'total', operator: '>', value: 15 }],
+      search: { term: 'plain', fields },
+      ordering: [{ field: 'articles.sku', type: OrderType.ASC }],
+    });
+
+    expect(
+      orders.map(({ id, articles }) => [
+        id,
+        articles.map((article) => article.sku),
+      ]),
+    ).toEqual([['o2', ['PROMO-50%', 'plain']]]);
+    expect(
+      await searchOrderIds(
+        { term: 'plain', fields },
+        { where: [{ field: 'total', operator: '<', value: 15 }] },
+      ),
+    ).toEqual([]);
+  });
+
+  it('finds every entity with a blank term', async () => {
+    expect(await searchOrderIds({ term: '  ', fields })).toEqual([
+      'o1',
+      'o2',
+      'o3',
+      'o4',
+    ]);
+  });
+});
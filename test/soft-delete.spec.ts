@@ -0,0 +1,209 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository, OrderType, Path } from '../src';
+import {
+  ArticleEntity,
+  createDataSource,
+  CustomerEntity,
+  OrderEntity,
+  TagEntity,
+} from './fixtures';
+
+describe('DynamicRepository soft delete', () => {
+  const deletedAt = new Date('2024-01-01T00:00:00Z');
+  const selections: Path<OrderEntity>[] = [
+    'id',
+    'customer.id',
+    'articles.id',
+    'tags.id',
+  ];
+
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(CustomerEntity).save([
+      { id: 'c1', name: 'Ann', deletedAt: null },
+      { id: 'c2', name: 'Bob', deletedAt },
+    ]);
+    await dataSource.getRepository(TagEntity).save([
+      { id: 't1', label: 'gift', deletedAt: null },
+      { id: 't2', label: 'urgent', deletedAt },
+    ]);
+    await dataSource.getRepository(OrderEntity).save([
+      {
+        id: 'o1',
+        status: 'open',
+        total: 10,
+        deletedAt: null,
+        customer: { id: 'c1' },
+        tags: [{ id: 't1' }, { id: 't2' }],
+      },
+      {
+        id: 'o2',
+        status: 'open',
+        total: 20,
+        deletedAt: null,
+        customer: { id: 'c2' },
+        tags: [{ id: 't2' }],
+      },
+      {
+        id: 'o3',
+        status: 'closed',
+        total: 30,
+        deletedAt,
+        customer: { id: 'c1' },
+        tags: [{ id: 't1' }],
+      },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'A', price: 5, deletedAt: null, order: { id: 'o1' } },
+      { id: 'a2', sku: 'B', price: 5, deletedAt, order: { id: 'o1' } },
+      { id: 'a3', sku: 'C', price: 20, deletedAt, order: { id: 'o2' } },
+      { id: 'a4', sku: 'D', price: 30, deletedAt, order: { id: 'o3' } },
+      { id: 'a5', sku: 'E', price: 40, deletedAt: null, order: { id: 'o3' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  // Ids of found orders and their relations, to compare them regardless of row order
+  const summarize = (orders: OrderEntity[]) =>
+    orders
+      .map((order) => ({
+        id: order.id,
+        customer: order.customer?.id ?? null,
+        articles: order.articles.map(({ id }) => id).sort(),
+        tags: order.tags.map(({ id }) => id).sort(),
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+  it('excludes soft deleted rows at the root and in every join by default', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections,
+    });
+
+    // Orders whose relations are all soft deleted are still found,
+    // so deleted rows are left out by join conditions, not by the where clause
+    expect(summarize(orders)).toEqual([
+      { id: 'o1', customer: 'c1', articles: ['a1'], tags: ['t1'] },
+      { id: 'o2', customer: null, articles: [], tags: [] },
+    ]);
+  });
+
+  it('keeps soft deleted rows in join conditions instead of the where clause', async () => {
+    const { sql } = await repository.explain<OrderEntity>(OrderEntity, {
+      selections,
+    });
+    const [joins, where] = sql.split(' WHERE ');
+
+    ['customer', 'article', 'tag'].forEach((table) =>
+      expect(joins).toMatch(
+        new RegExp(
+          `LEFT JOIN "${table}" "(\\w+)" ON [^(]*\\("\\1"\\."deletedAt" IS NULL\\)`,
+        ),
+      ),
+    );
+    expect(where).toBe('"order"."deletedAt" IS NULL');
+  });
+
+  it('counts just entities which are not soft deleted', async () => {
+    const [orders, count] = await repository.findAndCount<OrderEntity>(
+      OrderEntity,
+      { selections },
+      {},
+      0,
+      10,
+    );
+
+    expect(orders).toHaveLength(2);
+    expect(count).toBe(2);
+  });
+
+  it('filters by relations ignoring their soft deleted rows', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id', 'articles.id'],
+      where: [{ field: 'articles.price', operator: '>', value: 10 }],
+    });
+
+    expect(orders).toEqual([]);
+  });
+
+  it('finds soft deleted rows at every level with withDeleted', async () => {
+    const orders = await repository.find<OrderEntity>(
+      OrderEntity,
+      { selections },
+      { withDeleted: true },
+    );
+
+    expect(summarize(orders)).toEqual([
+      { id: 'o1', customer: 'c1', articles: ['a1', 'a2'], tags: ['t1', 't2'] },
+      { id: 'o2', customer: 'c2', articles: ['a3'], tags: ['t2'] },
+      { id: 'o3', customer: 'c1', articles: ['a4', 'a5'], tags: ['t1'] },
+    ]);
+  });
+
+  it('finds just soft deleted entities, with all their relations, with onlyDeleted', async () => {
+    const [orders, count] = await repository.findAndCount<OrderEntity>(
+      OrderEntity,
+      { selections },
+      { onlyDeleted: true },
+      0,
+      10,
+    );
+
+    expect(summarize(orders)).toEqual([
+      { id: 'o3', customer: 'c1', articles: ['a4', 'a5'], tags: ['t1'] },
+    ]);
+    expect(count).toBe(1);
+  });
+
+  it('applies soft delete options when relations are loaded in their own queries', async () => {
+    const findOrders = (withDeleted: boolean) =>
+      repository.find<OrderEntity>(
+        OrderEntity,
+        { selections },
+        { withDeleted, relationLoadStrategy: 'query' },
+      );
+
+    expect(summarize(await findOrders(false))).toEqual([
+      { id: 'o1', customer: 'c1', articles: ['a1'], tags: ['t1'] },
+      { id: 'o2', customer: null, articles: [], tags: [] },
+    ]);
+    expect(summarize(await findOrders(true))).toHaveLength(3);
+  });
+
+  it('excludes soft deleted rows joined through a many-to-one relation', async () => {
+    const articles = await repository.find<ArticleEntity>(ArticleEntity, {
+      selections: ['id', 'order.id'],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+
+    expect(
+      articles.map(({ id, order }) => ({ id, order: order?.id ?? null })),
+    ).toEqual([
+      { id: 'a1', order: 'o1' },
+      { id: 'a5', order: null },
+    ]);
+  });
+
+  it('excludes soft deleted rows in nested joins of every kind', async () => {
+    const article = await repository.findOne<ArticleEntity>(ArticleEntity, {
+      selections: [
+        'id',
+        'order.id',
+        'order.customer.id',
+        'order.articles.id',
+        'order.tags.id',
+      ],
+      where: [{ field: 'id', operator: '=', value: 'a1' }],
+    });
+
+    expect(summarize([article?.order as OrderEntity])).toEqual([
+      { id: 'o1', customer: 'c1', articles: ['a1'], tags: ['t1'] },
+    ]);
+  });
+});
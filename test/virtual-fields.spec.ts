@@ -0,0 +1,127 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository, OrderType } from '../src';
+import { RepositoryInvalidArgumentException } from './exceptions';
+import {
+  ArticleEntity,
+  createDataSource,
+  CustomerEntity,
+  OrderEntity,
+} from './fixtures';
+
+describe('DynamicRepository virtual fields', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  const summarize = (orders: OrderEntity[]) =>
+    orders.map(({ id, customer, articles }) => ({
+      id,
+      customer: customer?.shoutedName,
+      articles: articles.map((article) => article.doublePrice),
+    }));
+
+  beforeAll(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+
+    await dataSource.getRepository(CustomerEntity).save([
+      { id: 'c1', name: 'Ann' },
+      { id: 'c2', name: 'Bob' },
+    ]);
+    await dataSource.getRepository(OrderEntity).save([
+      { id: 'o1', status: 'open', total: 10, customer: { id: 'c1' } },
+      { id: 'o2', status: 'open', total: 20, customer: { id: 'c2' } },
+      { id: 'o3', status: 'open', total: 30, customer: null },
+    ]);
+    await dataSource.getRepository(ArticleEntity).save([
+      { id: 'a1', sku: 'a1', price: 5, order: { id: 'o1' } },
+      { id: 'a2', sku: 'a2', price: 8, order: { id: 'o1' } },
+      { id: 'a3', sku: 'a3', price: 3, order: { id: 'o2' } },
+    ]);
+  });
+
+  afterAll(() => dataSource.destroy());
+
+  it('selects virtual fields of to-one and to-many relations', async () => {
+    const orders = await repository.find<OrderEntity>(OrderEntity, {
+      selections: ['id', 'customer.shoutedName', 'articles.doublePrice'],
+      ordering: [
+        { field: 'id', type: OrderType.ASC },
+        { field: 'articles.id', type: OrderType.ASC },
+      ],
+    });
+
+    expect(summarize(orders)).toEqual([
+      { id: 'o1', customer: 'ANN', articles: [10, 16] },
+      { id: 'o2', customer: 'BOB', articles: [6] },
+      { id: 'o3', customer: undefined, articles: [] },
+    ]);
+  });
+
+  it('filters and sorts by virtual fields of relations', async () => {
+    for (const relationLoadStrategy of ['join', 'query'] as const) {
+      const orders = await repository.find<OrderEntity>(
+        OrderEntity,
+        {
+          selections: ['id', 'customer.shoutedName', 'articles.doublePrice'],
+          where: [
+            { field: 'articles.doublePrice', operator: '>=', value: 6 },
+            { field: 'customer.shoutedName', operator: '!=', value: 'ZOE' },
+          ],
+          ordering: [{ field: 'customer.shoutedName', type: OrderType.DESC }],
+        },
+        { relationLoadStrategy },
+      );
+
+      expect(summarize(orders)).toEqual([
+        { id: 'o2', customer: 'BOB', articles: [6] },
+        { id: 'o1', customer: 'ANN', articles: [10, 16] },
+      ]);
+    }
+  });
+
+  it('sorts entities by virtual fields of their to-many relations', async () => {
+    for (const relationLoadStrategy of ['join', 'query'] as const) {
+      const orders = await repository.find<OrderEntity>(
+        OrderEntity,
+        {
+          selections: ['id', 'articles.doublePrice'],
+          where: [{ field: 'articles.doublePrice', operator: '<', value: 12 }],
+          ordering: [{ field: 'articles.doublePrice', type: OrderType.ASC }],
+        },
+        { relationLoadStrategy },
+      );
+
+      expect(orders.map(({ id }) => id)).toEqual(['o2', 'o1']);
+    }
+  });
+
+  it('filters by virtual fields two relations away', async () => {
+    const articles = await repository.find<ArticleEntity>(ArticleEntity, {
+      selections: ['id', 'order.customer.shoutedName'],
+      where: [
+        { field: 'order.customer.shoutedName', operator: '=', value: 'ANN' },
+      ],
+      ordering: [{ field: 'id', type: OrderType.ASC }],
+    });
+
+    expect(
+      articles.map(({ id, order }) => [id, order.customer?.shoutedName]),
+    ).toEqual([
+      ['a1', 'ANN'],
+      ['a2', 'ANN'],
+    ]);
+  });
+
+  it('checks filter values of relation virtual fields by their type', async () => {
+    // Untyped query, since values of typed ones already match their fields
+    await expect(
+      repository.find('order', {
+        selections: ['id'],
+        where: [
+          { field: 'articles.doublePrice', operator: '>', value: 'many' },
+        ],
+      }),
+    ).rejects.toThrow(RepositoryInvalidArgumentException);
+  });
+});
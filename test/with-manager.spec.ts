@@ -0,0 +1,54 @@
+import { DataSource } from 'typeorm';
+
+import { DynamicRepository } from '../src';
+import { createDataSource, OrderEntity } from './fixtures';
+
+describe('DynamicRepository withManager', () => {
+  let dataSource: DataSource;
+  let repository: DynamicRepository;
+
+  beforeEach(async () => {
+    dataSource = await createDataSource();
+    repository = new DynamicRepository(dataSource, false);
+  });
+
+  afterEach(() => dataSource.destroy());
+
+  it('runs queries with the manager of a query runner', async () => {
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.startTransaction();
+
+    try {
+      await queryRunner.manager
+        .getRepository(OrderEntity)
+        .save({ id: 'o1', status: 'open', total: 10 });
+
+      const orders = await repository
+        .withManager(queryRunner.manager)
+        .find<OrderEntity>(OrderEntity, { selections: ['id'] });
+
+      expect(orders.map(({ id }) => id)).toEqual(['o1']);
+    } finally {
+      await queryRunner.rollbackTransaction();
+      await queryRunner.release();
+    }
+  });
+
+  it('does not share operators registered afterwards', async () => {
+    const scoped = repository.withManager(dataSource.manager);
+    scoped.registerOperator('isOpen', {
+      build: (qb, sqlField) => [sqlField + " = 'open'", {}],
+    });
+
+    await expect(
+      scoped.find<OrderEntity>(OrderEntity, {
+        where: [{ field: 'status', operator: 'isOpen' }],
+      }),
+    ).resolves.toEqual([]);
+    await expect(
+      repository.find<OrderEntity>(OrderEntity, {
+        where: [{ field: 'status', operator: 'isOpen' }],
+      }),
+    ).rejects.toThrow('isOpen');
+  });
+});